@@ -1,22 +1,35 @@
-import { BrowserRouter as Router, Routes, Route, Navigate, Outlet } from "react-router-dom";
+import { BrowserRouter as Router, Routes, Route, Navigate, Outlet, useLocation } from "react-router-dom";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { AuthProvider, useAuth } from "./context/AuthContext";
+import { ToastProvider } from "./context/ToastContext";
+import { ConfirmProvider } from "./context/ConfirmContext";
+import { isApiError } from "./lib/errors";
+import { hasRole, ROLES, type Role } from "./lib/domain";
 import DashboardLayout from "./components/DashboardLayout";
 import AuthLayout from "./components/AuthLayout";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Verify from "./pages/Verify";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import OAuthCallback from "./pages/OAuthCallback";
 import Home from "./pages/Home";
 import Contents from "./pages/Contents";
 import Tags from "./pages/Tags";
 import ContentDetail from "./pages/ContentDetail";
+import AccountSettings from "./pages/AccountSettings";
+import Sessions from "./pages/Sessions";
+import AdminUsers from "./pages/AdminUsers";
 import "./App.css";
 
 // Create a client
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      retry: 1,
+      // Only a dropped connection is worth one more try here: rate limits and
+      // 5xx are already retried with backoff by the api layer, and auth,
+      // validation or schema (ApiContractError) failures will fail again.
+      retry: (failureCount, error) => (!isApiError(error) || error.kind === "network") && failureCount < 1,
       refetchOnWindowFocus: false,
       staleTime: 1000 * 60 * 5, // 5 minutes
     },
@@ -26,38 +39,62 @@ const queryClient = new QueryClient({
 // Protected Route Component
 const ProtectedRoute = () => {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return <div className="flex justify-center items-center h-screen bg-zinc-50 text-zinc-500 text-sm font-medium">Loading...</div>;
   }
 
-  return isAuthenticated ? <Outlet /> : <Navigate to="/login" replace />;
+  return isAuthenticated ? (
+    <Outlet />
+  ) : (
+    <Navigate to="/login" replace state={{ from: location.pathname + location.search + location.hash }} />
+  );
+};
+
+// Role Guard: nest inside ProtectedRoute. Users without one of the roles are
+// sent home, so admin-only routes stay invisible rather than erroring.
+const RequireRole = ({ roles }: { roles: Role[] }) => {
+  const { user } = useAuth();
+  return hasRole(user, ...roles) ? <Outlet /> : <Navigate to="/" replace />;
 };
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
-        <AuthProvider>
-          <Routes>
-            {/* Public Routes */}
-            <Route element={<AuthLayout />}>
-              <Route path="/login" element={<Login />} />
-              <Route path="/register" element={<Register />} />
-              <Route path="/verify" element={<Verify />} />
-            </Route>
+        <ToastProvider>
+          <ConfirmProvider>
+            <AuthProvider>
+              <Routes>
+                {/* Public Routes */}
+                <Route element={<AuthLayout />}>
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/verify" element={<Verify />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route path="/auth/callback" element={<OAuthCallback />} />
+                </Route>
 
-            {/* Protected Routes */}
-            <Route element={<ProtectedRoute />}>
-              <Route element={<DashboardLayout />}>
-                <Route path="/" element={<Home />} />
-                <Route path="/contents" element={<Contents />} />
-                <Route path="/content/:id" element={<ContentDetail />} />
-                <Route path="/tags" element={<Tags />} />
-              </Route>
-            </Route>
-          </Routes>
-        </AuthProvider>
+                {/* Protected Routes */}
+                <Route element={<ProtectedRoute />}>
+                  <Route element={<DashboardLayout />}>
+                    <Route path="/" element={<Home />} />
+                    <Route path="/contents" element={<Contents />} />
+                    <Route path="/content/:id" element={<ContentDetail />} />
+                    <Route path="/tags" element={<Tags />} />
+                    <Route path="/settings/account" element={<AccountSettings />} />
+                    <Route path="/settings/sessions" element={<Sessions />} />
+                    <Route element={<RequireRole roles={[ROLES.admin]} />}>
+                      <Route path="/admin" element={<AdminUsers />} />
+                    </Route>
+                  </Route>
+                </Route>
+              </Routes>
+            </AuthProvider>
+          </ConfirmProvider>
+        </ToastProvider>
       </Router>
     </QueryClientProvider>
   );
@@ -16,41 +16,40 @@ import {
 import { Tag, Sparkles, Plus, X, Settings2, Check, RotateCw, ExternalLink, Youtube } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import api from "@/lib/api";
+import {
+  addContentTags,
+  addPotentialKeywords,
+  getContentTags,
+  getSuggestions,
+  regenerateSuggestions,
+  removeContentTags,
+} from "@/lib/client";
+import {
+  isExistingSuggestion,
+  isKeywordSuggestion,
+  isYoutubeContent,
+  swapKeywordVariant as swapVariant,
+  type Content,
+  type ExistingSuggestion,
+  type KeywordSuggestion,
+  type TagItem,
+} from "@/lib/domain";
+import { getErrorMessage } from "@/lib/errors";
+import { useRateLimitedAction } from "@/hooks/useRateLimit";
 import TagSelector from "@/components/TagSelector";
 import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/useToast";
 
 interface ContentViewProps {
-  content: {
-    id: string;
-    title: string;
-    body: string;
-    contentType: string;
-    metadata?: any;
-    createdAt: string;
-  };
+  content: Content;
   trigger?: React.ReactNode;
 }
 
-interface TagItem {
-  id: string;
-  name: string;
-  score?: number; 
-  linkId?: string;
-}
-
-interface SuggestionItem {
-  type: "EXISTING" | "KEYWORD";
-  id?: string;
-  name: string;
-  score: number;
-  variants?: string[];
-}
-
 const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
+  const toast = useToast();
   const [activeTags, setActiveTags] = useState<TagItem[]>([]);
-  const [tagSuggestions, setTagSuggestions] = useState<SuggestionItem[]>([]);
-  const [keywordSuggestions, setKeywordSuggestions] = useState<SuggestionItem[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<ExistingSuggestion[]>([]);
+  const [keywordSuggestions, setKeywordSuggestions] = useState<KeywordSuggestion[]>([]);
   const [isLoadingTags, setIsLoadingTags] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
   
@@ -68,34 +67,26 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
   const fetchTagsAndSuggestions = async () => {
     if (!content.id) return;
     setIsLoadingTags(true);
+    setSuggestionError(null);
     let isMounted = true;
     try {
-      const [tagsRes, suggestionsRes] = await Promise.all([
-        api.get(`/content/${content.id}/tags`),
-        api.get(`/suggestions/content/${content.id}`),
+      const [currentTags, suggestions] = await Promise.all([
+        getContentTags(content.id),
+        getSuggestions(content.id),
       ]);
       
       if (!isMounted) return;
 
-      // Map active tags
-      const currentTags = (tagsRes.data.data || []).map((t: any) => ({
-        id: t.tagId,
-        name: t.name,
-        linkId: t.id
-      }));
       setActiveTags(currentTags);
-      
-      // Handle structured suggestions response
-      const { existing = [], potential = [] } = suggestionsRes.data || {};
-      
-      setTagSuggestions(existing.map((s: any) => ({ ...s, id: s.tagId, type: "EXISTING" })));
-      setKeywordSuggestions(potential.map((p: any) => ({ ...p, name: p.keyword, type: "KEYWORD" })));
+      setTagSuggestions(suggestions.filter(isExistingSuggestion));
+      setKeywordSuggestions(suggestions.filter(isKeywordSuggestion));
       
       // Initialize selected tags for the manager
       setSelectedTagIds(currentTags.map((t: TagItem) => t.id));
-    } catch (error: any) {
+    } catch (err: unknown) {
       if (!isMounted) return;
-      console.error("Failed to fetch tags and suggestions:", error);
+      console.error("Failed to fetch tags and suggestions:", err);
+      setSuggestionError(getErrorMessage(err, "Failed to load tags and suggestions."));
     } finally {
       if (isMounted) {
         setIsLoadingTags(false);
@@ -118,10 +109,11 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
 
   const removeTag = async (tagId: string) => {
     try {
-      await api.delete(`/content/${content.id}/tags`, { data: { tagIds: [tagId] } });
+      await removeContentTags(content.id, [tagId]);
       setActiveTags(activeTags.filter((t) => t.id !== tagId));
     } catch (error) {
       console.error("Failed to remove tag:", error);
+      toast.error("Failed to remove tag", getErrorMessage(error, "Please try again."));
     }
   };
 
@@ -140,10 +132,10 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
 
       const promises = [];
       if (toAdd.length > 0) {
-        promises.push(api.post(`/content/${content.id}/tags`, { tagIds: toAdd }));
+        promises.push(addContentTags(content.id, toAdd));
       }
       if (toRemove.length > 0) {
-        promises.push(api.delete(`/content/${content.id}/tags`, { data: { tagIds: toRemove } }));
+        promises.push(removeContentTags(content.id, toRemove));
       }
 
       await Promise.all(promises);
@@ -151,7 +143,7 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
       setIsManageTagsOpen(false);
     } catch (error) {
       console.error("Failed to save tags:", error);
-      alert("Failed to save changes.");
+      toast.error("Failed to save changes", getErrorMessage(error, "Please try again."));
     } finally {
       setIsSavingTags(false);
     }
@@ -164,13 +156,7 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
   };
 
   const swapKeywordVariant = (originalName: string, newName: string) => {
-    setKeywordSuggestions(prev => prev.map(s => {
-      if (s.name === originalName) {
-        const newVariants = [originalName, ...(s.variants || [])].filter(v => v !== newName);
-        return { ...s, name: newName, variants: newVariants };
-      }
-      return s;
-    }));
+    setKeywordSuggestions(prev => prev.map(s => s.name === originalName ? swapVariant(s, newName) : s));
     setSelectedKeywordNames(prev => prev.map(k => k === originalName ? newName : k));
   };
 
@@ -178,11 +164,12 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
     if (selectedKeywordNames.length === 0) return;
     setIsAddingSuggestions(true);
     try {
-      await api.post(`/content/${content.id}/potential`, { keywords: selectedKeywordNames });
+      await addPotentialKeywords(content.id, selectedKeywordNames);
       await fetchTagsAndSuggestions();
       setSelectedKeywordNames([]);
     } catch (error) {
       console.error("Failed to add selected keywords:", error);
+      toast.error("Failed to add keywords", getErrorMessage(error, "Please try again."));
     } finally {
       setIsAddingSuggestions(false);
     }
@@ -198,31 +185,29 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
     if (selectedSuggestionIds.length === 0) return;
     setIsAddingSuggestions(true);
     try {
-      await api.post(`/content/${content.id}/tags`, { tagIds: selectedSuggestionIds });
+      await addContentTags(content.id, selectedSuggestionIds);
       await fetchTagsAndSuggestions(); 
       setSelectedSuggestionIds([]);
     } catch (error) {
       console.error("Failed to add selected suggestions:", error);
+      toast.error("Failed to add suggestions", getErrorMessage(error, "Please try again."));
     } finally {
       setIsAddingSuggestions(false);
     }
   };
 
+  const regenerate = useRateLimitedAction("suggestions", () => regenerateSuggestions(content.id));
+
   const handleRegenerate = async () => {
     setIsRegenerating(true);
     setSuggestionError(null);
     try {
-      const res = await api.post(`/suggestions/content/${content.id}/regenerate`);
-      const { existing = [], potential = [] } = res.data || {};
-      setTagSuggestions(existing.map((s: any) => ({ ...s, id: s.tagId, type: "EXISTING" })));
-      setKeywordSuggestions(potential.map((p: any) => ({ ...p, name: p.keyword, type: "KEYWORD" })));
-    } catch (error: any) {
+      const suggestions = await regenerate.run();
+      setTagSuggestions(suggestions.filter(isExistingSuggestion));
+      setKeywordSuggestions(suggestions.filter(isKeywordSuggestion));
+    } catch (error) {
       console.error("Failed to regenerate:", error);
-      if (error.response?.status === 429) {
-        setSuggestionError("Rate limit exceeded. Please wait.");
-      } else {
-        setSuggestionError("Failed to regenerate suggestions.");
-      }
+      setSuggestionError(getErrorMessage(error, "Failed to regenerate suggestions."));
     } finally {
       setIsRegenerating(false);
     }
@@ -262,7 +247,7 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
           </SheetHeader>
 
           <div className="mb-8">
-            {content.contentType === "YOUTUBE_VIDEO" ? (
+            {isYoutubeContent(content) ? (
               <div className="space-y-6">
                 <div className="flex items-center gap-3 p-4 bg-zinc-50 border border-zinc-100 rounded-xl group transition-all hover:bg-red-50/30 hover:border-red-100">
                   <div className="w-10 h-10 rounded-full bg-red-100 flex items-center justify-center text-red-600 shrink-0 group-hover:scale-110 transition-transform">
@@ -271,18 +256,18 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
                   <div className="flex-1 min-w-0">
                     <p className="text-[10px] uppercase font-bold text-zinc-400 tracking-wider mb-0.5">YouTube Link</p>
                     <a 
-                      href={content.metadata?.youtubeUrl} 
+                      href={content.metadata.youtubeUrl} 
                       target="_blank" 
                       rel="noopener noreferrer" 
                       className="text-sm font-semibold text-indigo-600 hover:text-indigo-700 break-all flex items-center gap-1.5"
                     >
-                      {content.metadata?.youtubeUrl}
+                      {content.metadata.youtubeUrl}
                       <ExternalLink size={12} />
                     </a>
                   </div>
                 </div>
 
-                {content.metadata?.userDescription && (
+                {content.metadata.userDescription && (
                   <div className="space-y-2">
                     <p className="text-[10px] uppercase font-bold text-zinc-400 tracking-wider">Description</p>
                     <div className="text-zinc-800 text-sm leading-relaxed whitespace-pre-wrap font-sans bg-zinc-50/50 p-4 rounded-xl border border-zinc-100/50">
@@ -347,8 +332,8 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
                   </button>
                 )}
                 <button onClick={handleRegenerate} disabled={isRegenerating || isLoadingTags} className="text-xs flex items-center gap-1.5 text-indigo-600 hover:bg-indigo-50 px-2 py-1.5 rounded-md transition-colors disabled:opacity-50" title="Regenerate Suggestions">
-                  <RotateCw size={12} className={isRegenerating ? "animate-spin" : ""} />
-                  Regenerate
+                  <RotateCw size={12} className={isRegenerating && !regenerate.isWaiting ? "animate-spin" : ""} />
+                  {regenerate.isWaiting ? `Retrying in ${regenerate.secondsLeft}s` : "Regenerate"}
                 </button>
               </div>
             </div>
@@ -370,9 +355,9 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
                     <p className="text-[10px] uppercase font-bold text-indigo-400 mb-2 tracking-wider">Suggested Existing Tags</p>
                     <div className="flex flex-wrap gap-2">
                       {displayedTagSuggestions.map((tag) => {
-                        const isSelected = selectedSuggestionIds.includes(tag.id!);
+                        const isSelected = selectedSuggestionIds.includes(tag.id);
                         return (
-                          <button key={tag.id} onClick={() => toggleSuggestion(tag.id!)} className={`relative inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border shadow-sm transition-all ${isSelected ? "bg-indigo-600 text-white border-indigo-700" : "bg-white text-indigo-700 border-indigo-200 hover:shadow-md hover:-translate-y-0.5"}`}>
+                          <button key={tag.id} onClick={() => toggleSuggestion(tag.id)} className={`relative inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border shadow-sm transition-all ${isSelected ? "bg-indigo-600 text-white border-indigo-700" : "bg-white text-indigo-700 border-indigo-200 hover:shadow-md hover:-translate-y-0.5"}`}>
                             {isSelected && <Check size={12} className="text-indigo-600" />}
                             {tag.name}
                             <div className="w-8 h-1 bg-black/10 rounded-full overflow-hidden ml-1.5 border border-black/5 pointer-events-none" title={`Match Score: ${tag.score}`}>
@@ -413,7 +398,7 @@ const ContentView: React.FC<ContentViewProps> = ({ content, trigger }) => {
                                 />
                             </div>
                             
-                            {kw.variants && kw.variants.length > 0 ? (
+                            {kw.variants.length > 0 ? (
                               <div className="mt-auto pt-2 border-t border-dashed border-zinc-100">
                                 <p className="text-[9px] text-zinc-400 mb-1.5 font-medium">Alternatives:</p>
                                 <div className="flex flex-wrap gap-1.5">
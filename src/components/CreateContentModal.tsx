@@ -1,4 +1,6 @@
-import React, { useState } from "react";
+import React, { useCallback, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import {
   Dialog,
   DialogContent,
@@ -8,8 +10,27 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Plus, Check, ArrowRight, ArrowLeft, ExternalLink, RotateCw } from "lucide-react";
-import api from "@/lib/api";
+import { analyzeText, createContent, createTags, createYoutubeContent, getYoutubeInfo } from "@/lib/client";
+import {
+  CONTENT_TYPES,
+  extractYoutubeVideoId,
+  isExistingSuggestion,
+  isKeywordSuggestion,
+  swapKeywordVariant as swapVariant,
+  type ExistingSuggestion,
+  type KeywordSuggestion,
+} from "@/lib/domain";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  applyServerErrors,
+  newContentStepSchema,
+  transcriptStepSchema,
+  type NewContentFormValues,
+} from "@/lib/forms";
+import { useRateLimitedAction } from "@/hooks/useRateLimit";
+import { useToast } from "@/hooks/useToast";
 import TagSelector from "@/components/TagSelector";
+import FieldError from "@/components/FieldError";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -18,21 +39,33 @@ interface CreateContentModalProps {
   trigger?: React.ReactNode;
 }
 
+const EMPTY_CONTENT: NewContentFormValues = {
+  title: "",
+  content: "",
+  description: "",
+  transcript: "",
+  contentType: "PLAIN_TEXT",
+};
+
 const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreated, trigger }) => {
+  const toast = useToast();
   const [open, setOpen] = useState(false);
   const [step, setStep] = useState<"content" | "preview" | "tags">("content");
-  const [title, setTitle] = useState("");
-  const [content, setContent] = useState(""); 
-  const [description, setDescription] = useState(""); 
-  const [transcript, setTranscript] = useState(""); 
   const [isFetchingInfo, setIsFetchingInfo] = useState(false);
-  const [contentType, setContentType] = useState("PLAIN_TEXT");
   const [view, setView] = useState<"write" | "preview">("write");
+  const form = useForm<NewContentFormValues>({
+    // Each step only validates its own fields.
+    resolver: (values, context, options) =>
+      zodResolver(step === "preview" ? transcriptStepSchema : newContentStepSchema)(values, context, options),
+    defaultValues: EMPTY_CONTENT,
+  });
+  const { register, handleSubmit, formState: { errors } } = form;
+  const [title, content, contentType] = useWatch({ control: form.control, name: ["title", "content", "contentType"] });
 
   // Extraction State
   const [isExtracting, setIsExtracting] = useState(false);
-  const [suggestedTags, setSuggestedTags] = useState<any[]>([]);
-  const [extractedKeywords, setExtractedKeywords] = useState<{keyword: string, score: number, variants: string[]}[]>([]);
+  const [suggestedTags, setSuggestedTags] = useState<ExistingSuggestion[]>([]);
+  const [extractedKeywords, setExtractedKeywords] = useState<KeywordSuggestion[]>([]);
   
   // Selection State (Local until save)
   const [selectedKeywords, setSelectedKeywords] = useState<string[]>([]);
@@ -40,15 +73,22 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
   const [customTagsInput, setCustomTagsInput] = useState("");
 
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState("");
   const [suggestionError, setSuggestionError] = useState("");
 
+  // Fills in the title (if still empty) from a fetched video title.
+  const adoptVideoTitle = useCallback(
+    (videoTitle: string | undefined) => {
+      if (videoTitle && !form.getValues("title")) form.setValue("title", videoTitle);
+    },
+    [form]
+  );
+
   // Auto-fetch YouTube title when URL is pasted
   React.useEffect(() => {
     const fetchTitle = async () => {
       if (contentType !== "YOUTUBE_VIDEO" || !content) return;
       
-      const videoId = extractVideoId(content);
+      const videoId = extractYoutubeVideoId(content);
       if (!videoId) return;
 
       setIsFetchingInfo(true);
@@ -56,14 +96,10 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
         const response = await fetch(`https://www.youtube.com/oembed?url=${encodeURIComponent(content)}&format=json`);
         if (response.ok) {
           const data = await response.json();
-          if (data.title && !title) {
-            setTitle(data.title);
-          }
+          adoptVideoTitle(data.title);
         } else {
-          const res = await api.post("/youtube/info", { url: content });
-          if (res.data?.title && !title) {
-            setTitle(res.data.title);
-          }
+          const info = await getYoutubeInfo(content);
+          adoptVideoTitle(info.title);
         }
       } catch (err) {
         console.warn("Auto-fetch title failed:", err);
@@ -74,14 +110,10 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
 
     const timer = setTimeout(fetchTitle, 500); 
     return () => clearTimeout(timer);
-  }, [content, contentType]);
+  }, [content, contentType, adoptVideoTitle]);
 
   const resetState = () => {
-    setTitle("");
-    setContent("");
-    setDescription("");
-    setTranscript("");
-    setContentType("PLAIN_TEXT");
+    form.reset(EMPTY_CONTENT);
     setView("write");
     setStep("content");
     setSelectedTagIds([]);
@@ -89,93 +121,53 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
     setCustomTagsInput("");
     setSuggestedTags([]);
     setExtractedKeywords([]);
-    setError("");
     setSuggestionError("");
   };
 
-  const extractVideoId = (url: string): string | null => {
-    const regex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-    const match = url.match(regex);
-    return match ? match[1] : null;
-  };
-
-  const handleNextStep = async (e: React.FormEvent) => {
-    if (e) e.preventDefault();
-    
-    if (step === "content") {
-      if (contentType !== "YOUTUBE_VIDEO" && !title) {
-          setError("Title is required.");
-          return;
-      }
-      if (!content) {
-          setError(contentType === "YOUTUBE_VIDEO" ? "YouTube URL is required." : "Body is required.");
-          return;
+  // Runs once the current step's fields are valid.
+  const handleNextStep = async (values: NewContentFormValues) => {
+    if (step === "content" && values.contentType === "YOUTUBE_VIDEO") {
+      setIsFetchingInfo(true);
+      try {
+        const info = await getYoutubeInfo(values.content);
+        adoptVideoTitle(info.title);
+      } catch (err) {
+        console.warn("Failed to fetch youtube info:", err);
+      } finally {
+        setIsFetchingInfo(false);
       }
 
-      setError("");
-      
-      if (contentType === "YOUTUBE_VIDEO") {
-        const videoId = extractVideoId(content);
-        if (!videoId) {
-            setError("Invalid YouTube URL.");
-            return;
-        }
+      window.open(`https://tactiq.io/tools/run/youtube_transcript?yt=${encodeURIComponent(values.content)}`, "_blank");
 
-        setIsFetchingInfo(true);
-        try {
-          const res = await api.post("/youtube/info", { url: content });
-          if (res.data?.title && !title) {
-            setTitle(res.data.title);
-          }
-        } catch (err) {
-          console.warn("Failed to fetch youtube info:", err);
-        } finally {
-          setIsFetchingInfo(false);
-        }
-        
-        window.open(`https://tactiq.io/tools/run/youtube_transcript?yt=${encodeURIComponent(content)}`, "_blank");
-        
-        setStep("preview");
-      } else {
-        setStep("tags");
-        handleGenerateSuggestions();
-      }
+      setStep("preview");
       return;
     }
 
-    if (step === "preview") {
-      if (!transcript) {
-          setError("Please paste the transcript first.");
-          return;
-      }
-      setError("");
-      setStep("tags");
-      handleGenerateSuggestions();
-      return;
-    }
+    setStep("tags");
+    handleGenerateSuggestions();
   };
 
-  const handleGenerateSuggestions = async () => {
-    setIsExtracting(true);
-    setSuggestionError("");
-    
+  // Waits out AI rate limits and retries on its own, showing a countdown meanwhile.
+  const analyze = useRateLimitedAction("suggestions", () => {
+    const { title, content, description, transcript, contentType } = form.getValues();
     let textToAnalyze = title ? `${title}\n\n${content}` : content;
     if (contentType === "YOUTUBE_VIDEO") {
         textToAnalyze = `${title}\n\n${description}\n\n${transcript || ""}`;
     }
+    return analyzeText(textToAnalyze);
+  });
+
+  const handleGenerateSuggestions = async () => {
+    setIsExtracting(true);
+    setSuggestionError("");
 
     try {
-      const res = await api.post("/suggestions/analyze", { text: textToAnalyze });
-      const { existing = [], potential = [] } = res.data || {};
-      setSuggestedTags(existing);
-      setExtractedKeywords(potential);
-    } catch (err: any) {
+      const suggestions = await analyze.run();
+      setSuggestedTags(suggestions.filter(isExistingSuggestion));
+      setExtractedKeywords(suggestions.filter(isKeywordSuggestion));
+    } catch (err) {
       console.error("Failed to suggest tags:", err);
-      if (err.response?.status === 429) {
-        setSuggestionError("AI rate limit exceeded. Please wait.");
-      } else {
-        setSuggestionError("Failed to fetch suggestions.");
-      }
+      setSuggestionError(getErrorMessage(err, "Failed to fetch suggestions."));
     }
     finally {
       setIsExtracting(false);
@@ -189,13 +181,7 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
   };
 
   const swapKeywordVariant = (originalName: string, newName: string) => {
-    setExtractedKeywords(prev => prev.map(s => {
-      if (s.keyword === originalName) {
-        const newVariants = [originalName, ...(s.variants || [])].filter(v => v !== newName);
-        return { ...s, keyword: newName, variants: newVariants };
-      }
-      return s;
-    }));
+    setExtractedKeywords(prev => prev.map(s => s.name === originalName ? swapVariant(s, newName) : s));
     setSelectedKeywords(prev => prev.map(k => k === originalName ? newName : k));
   };
 
@@ -211,10 +197,11 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
     );
   };
 
-  const handleSubmit = async () => {
+  const handleCreate = async () => {
     setIsLoading(true);
-    setError("");
+    form.clearErrors("root.server");
     try {
+      const { title, content, description, transcript, contentType } = form.getValues();
       let finalTagIds = [...selectedTagIds];
 
       const manualTags = customTagsInput
@@ -225,15 +212,13 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
       const allNewTags = Array.from(new Set([...selectedKeywords, ...manualTags]));
 
       if (allNewTags.length > 0) {
-        const createTagsRes = await api.post("/tag", { 
-          tags: allNewTags.map(kw => ({ name: kw, semantic: kw })) 
-        });
-        const newTagIds = (createTagsRes.data || []).map((t: any) => t.id);
+        const createdTags = await createTags(allNewTags.map(kw => ({ name: kw, semantic: kw })));
+        const newTagIds = createdTags.map((t) => t.id);
         finalTagIds = [...finalTagIds, ...newTagIds];
       }
 
       if (contentType === "YOUTUBE_VIDEO") {
-        await api.post("/content/youtube", {
+        await createYoutubeContent({
           url: content,
           title,
           description,
@@ -241,7 +226,7 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
           tagIds: finalTagIds,
         });
       } else {
-        await api.post("/content", {
+        await createContent({
           title,
           content,
           contentType,
@@ -251,9 +236,17 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
 
       onContentCreated();
       setOpen(false);
+      toast.success("Content created");
       resetState();
-    } catch (err: any) {
-      setError(err.response?.data?.error || "Failed to create content");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to create content", { url: "content" });
+      // Field errors belong to an earlier step; go back to where they are shown.
+      if ((["title", "content", "description"] as const).some((field) => form.getFieldState(field).error)) {
+        setStep("content");
+      } else if (form.getFieldState("transcript").error) {
+        setStep("preview");
+      }
     } finally {
       setIsLoading(false);
     }
@@ -279,14 +272,14 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
           </DialogTitle>
         </DialogHeader>
 
-        {error && (
+        {errors.root?.server && (
           <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm mb-4">
-            {error}
+            {errors.root.server.message}
           </div>
         )}
 
         {step === "content" && (
-          <form onSubmit={handleNextStep} className="space-y-4 py-2">
+          <form onSubmit={handleSubmit(handleNextStep)} noValidate className="space-y-4 py-2">
             <div className="space-y-2">
               <label htmlFor="title" className="text-sm font-medium text-zinc-900">
                 Title {contentType === "YOUTUBE_VIDEO" && "(Optional)"}
@@ -294,11 +287,11 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
               <input
                 id="title"
                 placeholder="Content title..."
-                className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                required={contentType !== "YOUTUBE_VIDEO"}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm ${errors.title ? "border-red-300" : "border-zinc-200"}`}
+                {...register("title")}
+                aria-invalid={!!errors.title}
               />
+              <FieldError message={errors.title?.message} />
             </div>
 
             <div className="space-y-2">
@@ -307,13 +300,12 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
               </label>
               <select
                 id="content-type"
-                value={contentType}
-                onChange={(e) => setContentType(e.target.value)}
+                {...register("contentType")}
                 className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm bg-white"
               >
-                <option value="PLAIN_TEXT">Plain Text</option>
-                <option value="MARKDOWN">Markdown</option>
-                <option value="YOUTUBE_VIDEO">YouTube Video</option>
+                {CONTENT_TYPES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </select>
             </div>
 
@@ -326,11 +318,11 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                   <input
                     id="content"
                     placeholder="https://www.youtube.com/watch?v=..."
-                    className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm"
-                    value={content}
-                    onChange={(e) => setContent(e.target.value)}
-                    required
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm ${errors.content ? "border-red-300" : "border-zinc-200"}`}
+                    {...register("content")}
+                    aria-invalid={!!errors.content}
                   />
+                  <FieldError message={errors.content?.message} />
                   <div className="space-y-1">
                     <label htmlFor="description" className="text-sm font-medium text-zinc-900">
                       Description (Optional)
@@ -339,9 +331,9 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                       id="description"
                       placeholder="Add a personal note or description..."
                       className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[100px]"
-                      value={description}
-                      onChange={(e) => setDescription(e.target.value)}
+                      {...register("description")}
                     />
+                    <FieldError message={errors.description?.message} />
                   </div>
                 </div>
               ) : (
@@ -355,8 +347,9 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                   {view === "preview" ? (
                     <div className="w-full px-4 py-3 border border-zinc-200 rounded-md bg-zinc-50 min-h-[300px] prose prose-sm max-w-none"><ReactMarkdown remarkPlugins={[remarkGfm]}>{content || "*Nothing to preview*"}</ReactMarkdown></div>
                   ) : (
-                    <textarea id="content" placeholder="Paste or write your content here..." className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[300px]" value={content} onChange={(e) => setContent(e.target.value)} required />
+                    <textarea id="content" placeholder="Paste or write your content here..." className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[300px] ${errors.content ? "border-red-300" : "border-zinc-200"}`} {...register("content")} aria-invalid={!!errors.content} />
                   )}
+                  <FieldError message={errors.content?.message} />
                 </>
               )}
             </div>
@@ -403,7 +396,7 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                     </button>
                     <button 
                         onClick={() => {
-                            const videoId = extractVideoId(content);
+                            const videoId = extractYoutubeVideoId(content);
                             if (videoId) window.open(`https://www.youtube-transcript.io/videos/${videoId}`, "_blank");
                         }}
                         className="px-3 py-1.5 bg-white text-blue-600 border border-blue-200 rounded text-xs font-bold hover:bg-blue-50 transition-colors"
@@ -421,15 +414,17 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
             
             <div className="space-y-2">
               <label className="text-sm font-medium text-zinc-900">Video Title (for display)</label>
-              <input className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Video Title..." />
+              <input className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm ${errors.title ? "border-red-300" : "border-zinc-200"}`} {...register("title")} placeholder="Video Title..." />
+              <FieldError message={errors.title?.message} />
             </div>
             <div className="space-y-2">
               <label className="text-sm font-medium text-zinc-900">Transcript (paste here)</label>
-              <textarea className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[300px]" value={transcript} onChange={(e) => setTranscript(e.target.value)} placeholder="Paste the video transcript here..." required />
+              <textarea className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[300px] ${errors.transcript ? "border-red-300" : "border-zinc-200"}`} {...register("transcript")} aria-invalid={!!errors.transcript} placeholder="Paste the video transcript here..." />
+              <FieldError message={errors.transcript?.message} />
             </div>
             <DialogFooter>
               <button onClick={() => setStep("content")} className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors mr-auto flex items-center gap-2"><ArrowLeft size={14} /> Back</button>
-              <button onClick={() => handleNextStep(null as any)} className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors flex items-center gap-2">Next: Select Tags <ArrowRight size={14} /></button>
+              <button onClick={handleSubmit(handleNextStep)} className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors flex items-center gap-2">Next: Select Tags <ArrowRight size={14} /></button>
             </DialogFooter>
           </div>
         )}
@@ -448,7 +443,8 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                  disabled={isExtracting} 
                  className="text-xs flex items-center gap-1.5 text-indigo-600 hover:text-indigo-700 font-medium px-2 py-1 bg-indigo-50 rounded-full hover:bg-indigo-100 transition-colors disabled:opacity-50"
                >
-                 <RotateCw size={12} className={isExtracting ? "animate-spin" : ""} /> Regenerate
+                 <RotateCw size={12} className={isExtracting && !analyze.isWaiting ? "animate-spin" : ""} />
+                 {analyze.isWaiting ? `Retrying in ${analyze.secondsLeft}s` : "Regenerate"}
                </button>
              </div>
 
@@ -466,12 +462,12 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                     <p className="text-[10px] uppercase font-bold text-indigo-400 mb-2 tracking-wider">Suggested Existing Tags</p>
                     <div className="flex flex-wrap gap-2">
                       {suggestedTags.map((tag) => {
-                        const isSelected = selectedTagIds.includes(tag.tagId);
+                        const isSelected = selectedTagIds.includes(tag.id);
                         return (
                           <button 
-                            key={tag.tagId} 
+                            key={tag.id} 
                             type="button"
-                            onClick={() => handleTagClick(tag.tagId)} 
+                            onClick={() => handleTagClick(tag.id)} 
                             className={`relative px-3 py-1.5 rounded-full text-xs font-medium border shadow-sm transition-all flex items-center gap-1.5 ${isSelected ? "bg-indigo-600 text-white border-indigo-700" : "bg-white text-indigo-700 border-indigo-200 hover:border-indigo-300"}`}
                           >
                             {isSelected ? <Check size={12} /> : <Plus size={12} />} {tag.name}
@@ -493,14 +489,14 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                   <div>
                     <p className="text-[10px] uppercase font-bold text-purple-400 mb-3 tracking-wider">New Tag Suggestions</p>
                     <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                      {extractedKeywords.filter(kw => !suggestedTags.some(s => s.name.toLowerCase() === kw.keyword.trim().toLowerCase())).map((kw) => {
-                        const isSelected = selectedKeywords.includes(kw.keyword);
+                      {extractedKeywords.filter(kw => !suggestedTags.some(s => s.name.toLowerCase() === kw.name.trim().toLowerCase())).map((kw) => {
+                        const isSelected = selectedKeywords.includes(kw.name);
                         return (
-                          <div key={kw.keyword} className={`relative flex flex-col bg-white border rounded-lg p-3 transition-all ${isSelected ? "border-purple-400 ring-1 ring-purple-400 shadow-sm" : "border-indigo-100 hover:border-purple-300 hover:shadow-sm"}`}>
+                          <div key={kw.name} className={`relative flex flex-col bg-white border rounded-lg p-3 transition-all ${isSelected ? "border-purple-400 ring-1 ring-purple-400 shadow-sm" : "border-indigo-100 hover:border-purple-300 hover:shadow-sm"}`}>
                             <div className="flex justify-between items-start gap-2 mb-2">
-                              <span className="text-xs font-bold text-purple-900 leading-tight break-words">{kw.keyword}</span>
+                              <span className="text-xs font-bold text-purple-900 leading-tight break-words">{kw.name}</span>
                               <button 
-                                onClick={() => handleKeywordClick(kw.keyword)} 
+                                onClick={() => handleKeywordClick(kw.name)} 
                                 className={`flex-shrink-0 w-5 h-5 flex items-center justify-center rounded-full border transition-colors ${isSelected ? "bg-purple-600 border-purple-600 text-white" : "bg-white border-zinc-200 text-zinc-400 hover:border-purple-400 hover:text-purple-600"}`}
                               >
                                 {isSelected ? <Check size={10} /> : <Plus size={12} />}
@@ -509,12 +505,12 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
                             <div className="w-full h-1 bg-zinc-100 rounded-full overflow-hidden mb-3 pointer-events-none">
                               <div className={`h-full transition-all ${isSelected ? "bg-purple-500" : "bg-purple-300"}`} style={{ width: `${Math.max(10, Math.min(100, kw.score * 100))}%` }} />
                             </div>
-                            {kw.variants && kw.variants.length > 0 && (
+                            {kw.variants.length > 0 && (
                               <div className="mt-auto pt-2 border-t border-dashed border-zinc-100">
                                 <p className="text-[9px] text-zinc-400 mb-1.5 font-medium">Alternatives:</p>
                                 <div className="flex flex-wrap gap-1.5">
                                   {kw.variants.map(v => (
-                                    <button key={v} onClick={() => swapKeywordVariant(kw.keyword, v)} className="text-[10px] bg-zinc-50 border border-zinc-100 px-1.5 py-0.5 rounded text-zinc-600 hover:bg-purple-50 hover:text-purple-700 hover:border-purple-200 transition-colors">
+                                    <button key={v} onClick={() => swapKeywordVariant(kw.name, v)} className="text-[10px] bg-zinc-50 border border-zinc-100 px-1.5 py-0.5 rounded text-zinc-600 hover:bg-purple-50 hover:text-purple-700 hover:border-purple-200 transition-colors">
                                       {v}
                                     </button>
                                   ))}
@@ -551,7 +547,7 @@ const CreateContentModal: React.FC<CreateContentModalProps> = ({ onContentCreate
 
              <DialogFooter className="mt-6">
                <button onClick={() => setStep(contentType === "YOUTUBE_VIDEO" ? "preview" : "content")} className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors mr-auto flex items-center gap-2"><ArrowLeft size={14} /> Back</button>
-               <button onClick={handleSubmit} disabled={isLoading} className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors disabled:opacity-50 flex items-center gap-2">
+               <button onClick={handleCreate} disabled={isLoading} className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors disabled:opacity-50 flex items-center gap-2">
                  {isLoading ? "Creating..." : "Create Content"} {!isLoading && <Check size={14} />}
                </button>
              </DialogFooter>
@@ -1,4 +1,6 @@
 import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import {
   Dialog,
   DialogContent,
@@ -8,7 +10,10 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Plus } from "lucide-react";
-import api from "@/lib/api";
+import { createTags } from "@/lib/client";
+import { useToast } from "@/hooks/useToast";
+import { applyServerErrors, tagFormSchema, type TagFormValues } from "@/lib/forms";
+import FieldError from "@/components/FieldError";
 
 interface CreateTagModalProps {
   onTagCreated: () => void;
@@ -16,33 +21,35 @@ interface CreateTagModalProps {
 }
 
 const CreateTagModal: React.FC<CreateTagModalProps> = ({ onTagCreated, trigger }) => {
+  const toast = useToast();
   const [open, setOpen] = useState(false);
-  const [name, setName] = useState("");
-  const [semantic, setSemantic] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState("");
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
-    setError("");
+  const form = useForm<TagFormValues>({
+    resolver: zodResolver(tagFormSchema),
+    defaultValues: { name: "", semantic: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
 
+  const onSubmit = async (values: TagFormValues) => {
     try {
-      await api.post("/tag", { tags: [{ name, semantic }] });
+      await createTags([values]);
       setOpen(false);
-      setName("");
-      setSemantic("");
+      form.reset();
       onTagCreated();
-    } catch (err: any) {
+      toast.success("Tag created");
+    } catch (err) {
       console.error(err);
-      setError(err.response?.data?.error || "Failed to create tag");
-    } finally {
-      setIsLoading(false);
+      // The endpoint takes a batch, so its field errors point into `tags`.
+      applyServerErrors(form, err, "Failed to create tag", { "tags.0.name": "name", "tags.0.semantic": "semantic" });
     }
   };
 
+  const handleOpenChange = (value: boolean) => {
+    if (!value) form.reset();
+    setOpen(value);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <button className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium">
@@ -56,25 +63,25 @@ const CreateTagModal: React.FC<CreateTagModalProps> = ({ onTagCreated, trigger }
           <DialogTitle>Create New Tag</DialogTitle>
         </DialogHeader>
 
-        {error && (
+        {errors.root?.server && (
           <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
-            {error}
+            {errors.root.server.message}
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4 py-4">
           <div className="space-y-2">
             <label htmlFor="name" className="text-sm font-medium text-zinc-900">
               Tag Name
             </label>
             <input
               id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
+              {...register("name")}
               placeholder="e.g. Project Alpha"
-              className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm"
-              required
+              aria-invalid={!!errors.name}
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm ${errors.name ? "border-red-300" : "border-zinc-200"}`}
             />
+            <FieldError message={errors.name?.message} />
           </div>
 
           <div className="space-y-2">
@@ -86,11 +93,12 @@ const CreateTagModal: React.FC<CreateTagModalProps> = ({ onTagCreated, trigger }
             </p>
             <textarea
               id="semantic"
-              value={semantic}
-              onChange={(e) => setSemantic(e.target.value)}
+              {...register("semantic")}
               placeholder="e.g. Technology"
-              className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[80px]"
+              aria-invalid={!!errors.semantic}
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[80px] ${errors.semantic ? "border-red-300" : "border-zinc-200"}`}
             />
+            <FieldError message={errors.semantic?.message} />
             <p className="text-[11px] text-zinc-400 italic">
               Note: System learning (embedding generation) may take some time under heavy load.
             </p>
@@ -99,17 +107,17 @@ const CreateTagModal: React.FC<CreateTagModalProps> = ({ onTagCreated, trigger }
           <DialogFooter>
             <button
               type="button"
-              onClick={() => setOpen(false)}
+              onClick={() => handleOpenChange(false)}
               className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors"
             >
               Cancel
             </button>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isSubmitting}
               className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors disabled:opacity-50"
             >
-              {isLoading ? "Creating..." : "Create Tag"}
+              {isSubmitting ? "Creating..." : "Create Tag"}
             </button>
           </DialogFooter>
         </form>
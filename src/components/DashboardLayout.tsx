@@ -1,7 +1,7 @@
 import React from "react";
 import { useAuth } from "@/context/AuthContext";
 import { Link, Outlet, useLocation } from "react-router-dom";
-import { LogOut, User, Home, FileText, Tag as TagIcon } from "lucide-react";
+import { LogOut, User, Home, FileText, Settings, MonitorSmartphone, Shield, Tag as TagIcon } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,10 +10,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import SessionExpiredDialog from "@/components/SessionExpiredDialog";
+import IdleWarningDialog from "@/components/IdleWarningDialog";
+import { hasRole, ROLES } from "@/lib/domain";
 
 const DashboardLayout: React.FC = () => {
   const { user, logout } = useAuth();
   const location = useLocation();
+  const isAdmin = hasRole(user, ROLES.admin);
 
   const isActive = (path: string) => {
     return location.pathname === path ? "text-indigo-600 bg-indigo-50" : "text-zinc-600 hover:text-zinc-900 hover:bg-zinc-100";
@@ -49,6 +53,11 @@ const DashboardLayout: React.FC = () => {
               <Link to="/tags" className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${isActive("/tags")}`}>
                 Tags
               </Link>
+              {isAdmin && (
+                <Link to="/admin" className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${isActive("/admin")}`}>
+                  Admin
+                </Link>
+              )}
             </nav>
           </div>
 
@@ -73,6 +82,27 @@ const DashboardLayout: React.FC = () => {
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem asChild className="cursor-pointer">
+                  <Link to="/settings/account">
+                    <Settings className="mr-2 h-4 w-4" />
+                    <span>Account settings</span>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild className="cursor-pointer">
+                  <Link to="/settings/sessions">
+                    <MonitorSmartphone className="mr-2 h-4 w-4" />
+                    <span>Active sessions</span>
+                  </Link>
+                </DropdownMenuItem>
+                {isAdmin && (
+                  <DropdownMenuItem asChild className="cursor-pointer">
+                    <Link to="/admin">
+                      <Shield className="mr-2 h-4 w-4" />
+                      <span>Admin</span>
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={logout} className="text-red-600 focus:text-red-600 focus:bg-red-50 cursor-pointer">
                   <LogOut className="mr-2 h-4 w-4" />
                   <span>Log out</span>
@@ -114,6 +144,9 @@ const DashboardLayout: React.FC = () => {
           </Link>
         </div>
       </nav>
+
+      <SessionExpiredDialog />
+      <IdleWarningDialog />
     </div>
   );
 };
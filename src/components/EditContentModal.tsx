@@ -1,4 +1,6 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import {
   Dialog,
   DialogContent,
@@ -10,57 +12,58 @@ import {
 import { Edit2 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import api from "@/lib/api";
+import { updateContent } from "@/lib/client";
+import { CONTENT_TYPES, type Content } from "@/lib/domain";
+import { useToast } from "@/hooks/useToast";
+import { applyServerErrors, editContentFormSchema, type EditContentFormValues } from "@/lib/forms";
+import FieldError from "@/components/FieldError";
 
 interface EditContentModalProps {
-  content: {
-    id: string;
-    title: string;
-    body: string;
-    contentType: string;
-    metadata?: any;
-  };
+  content: Content;
   onContentUpdated: () => void;
   trigger?: React.ReactNode;
 }
 
 const EditContentModal: React.FC<EditContentModalProps> = ({ content: initialContent, onContentUpdated, trigger }) => {
+  const toast = useToast();
   const [open, setOpen] = useState(false);
-  const [title, setTitle] = useState(initialContent.title);
-  const [body, setBody] = useState(initialContent.body);
-  const [contentType, setContentType] = useState(initialContent.contentType);
   const [view, setView] = useState<"write" | "preview">("write");
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState("");
+  const valuesOf = (content: Content): EditContentFormValues => ({
+    title: content.title,
+    body: content.body,
+    contentType: content.contentType,
+  });
+  const form = useForm<EditContentFormValues>({
+    resolver: zodResolver(editContentFormSchema),
+    defaultValues: valuesOf(initialContent),
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+  const [contentType, body] = useWatch({ control: form.control, name: ["contentType", "body"] });
+  const isYoutube = initialContent.contentType === "YOUTUBE_VIDEO";
 
-  useEffect(() => {
-    if (open) {
-      setTitle(initialContent.title);
-      setBody(initialContent.body);
-      setContentType(initialContent.contentType);
+  // Start from the content's current values every time the dialog opens.
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      form.reset(valuesOf(initialContent));
       setView("write");
     }
-  }, [open, initialContent]);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
-    setError("");
+    setOpen(value);
+  };
 
+  const onSubmit = async ({ title, body, contentType }: EditContentFormValues) => {
     try {
-      await api.patch(`/content/${initialContent.id}`, { title, content: body, contentType }); 
+      await updateContent(initialContent.id, { title, content: body, contentType });
       setOpen(false);
       onContentUpdated();
-    } catch (err: any) {
+      toast.success("Content updated");
+    } catch (err) {
       console.error(err);
-      setError(err.response?.data?.error || "Failed to update content");
-    } finally {
-      setIsLoading(false);
+      applyServerErrors(form, err, "Failed to update content", { content: "body" });
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <button className="text-zinc-400 hover:text-indigo-600 transition-colors p-1">
@@ -73,40 +76,39 @@ const EditContentModal: React.FC<EditContentModalProps> = ({ content: initialCon
           <DialogTitle>Edit Content</DialogTitle>
         </DialogHeader>
 
-        {error && (
+        {errors.root?.server && (
           <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm mb-4">
-            {error}
+            {errors.root.server.message}
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4 py-4">
           <div className="space-y-2">
             <label htmlFor="edit-title" className="text-sm font-medium text-zinc-900">
               Title
             </label>
             <input
               id="edit-title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm"
-              required
+              {...register("title")}
+              aria-invalid={!!errors.title}
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm ${errors.title ? "border-red-300" : "border-zinc-200"}`}
             />
+            <FieldError message={errors.title?.message} />
           </div>
 
           <div className="space-y-2">
             <label htmlFor="edit-content-type" className="text-sm font-medium text-zinc-900">
               Type
             </label>
+            {/* YouTube content can't change type; a disabled registered field would submit no value. */}
             <select
               id="edit-content-type"
-              value={contentType}
-              onChange={(e) => setContentType(e.target.value)}
-              disabled={initialContent.contentType === "YOUTUBE_VIDEO"}
+              {...(isYoutube ? { value: contentType, disabled: true } : register("contentType"))}
               className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm bg-white disabled:bg-zinc-50 disabled:text-zinc-500"
             >
-              <option value="PLAIN_TEXT">Plain Text</option>
-              <option value="MARKDOWN">Markdown</option>
-              <option value="YOUTUBE_VIDEO">YouTube Video</option>
+              {CONTENT_TYPES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
             </select>
           </div>
 
@@ -148,28 +150,28 @@ const EditContentModal: React.FC<EditContentModalProps> = ({ content: initialCon
             ) : (
               <textarea
                 id="edit-body"
-                value={body}
-                onChange={(e) => setBody(e.target.value)}
-                className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[300px] font-mono"
-                required
+                {...register("body")}
+                aria-invalid={!!errors.body}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[300px] font-mono ${errors.body ? "border-red-300" : "border-zinc-200"}`}
               />
             )}
+            <FieldError message={errors.body?.message} />
           </div>
 
           <DialogFooter>
             <button
               type="button"
-              onClick={() => setOpen(false)}
+              onClick={() => handleOpenChange(false)}
               className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors"
             >
               Cancel
             </button>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isSubmitting}
               className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors disabled:opacity-50"
             >
-              {isLoading ? "Saving..." : "Save Changes"}
+              {isSubmitting ? "Saving..." : "Save Changes"}
             </button>
           </DialogFooter>
         </form>
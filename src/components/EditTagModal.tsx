@@ -1,4 +1,6 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import {
   Dialog,
   DialogContent,
@@ -8,51 +10,50 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Edit2 } from "lucide-react";
-import api from "@/lib/api";
+import { updateTag } from "@/lib/client";
+import { useToast } from "@/hooks/useToast";
+import { applyServerErrors, tagFormSchema, type TagFormValues } from "@/lib/forms";
+import FieldError from "@/components/FieldError";
 
 interface EditTagModalProps {
   tag: {
     id: string;
     name: string;
-    semantic?: string;
+    semantic?: string | null;
   };
   onTagUpdated: () => void;
   trigger?: React.ReactNode;
 }
 
 const EditTagModal: React.FC<EditTagModalProps> = ({ tag, onTagUpdated, trigger }) => {
+  const toast = useToast();
   const [open, setOpen] = useState(false);
-  const [name, setName] = useState(tag.name);
-  const [semantic, setSemantic] = useState(tag.semantic || "");
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState("");
+  const form = useForm<TagFormValues>({
+    resolver: zodResolver(tagFormSchema),
+    defaultValues: { name: tag.name, semantic: tag.semantic || "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
 
-  useEffect(() => {
-    if (open) {
-      setName(tag.name);
-      setSemantic(tag.semantic || "");
-    }
-  }, [open, tag]);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
-    setError("");
+  // Start from the tag's current values every time the dialog opens.
+  const handleOpenChange = (value: boolean) => {
+    if (value) form.reset({ name: tag.name, semantic: tag.semantic || "" });
+    setOpen(value);
+  };
 
+  const onSubmit = async (values: TagFormValues) => {
     try {
-      await api.patch(`/tag/${tag.id}`, { name, semantic });
+      await updateTag(tag.id, values);
       setOpen(false);
       onTagUpdated();
-    } catch (err: any) {
+      toast.success("Tag updated");
+    } catch (err) {
       console.error(err);
-      setError(err.response?.data?.error || "Failed to update tag");
-    } finally {
-      setIsLoading(false);
+      applyServerErrors(form, err, "Failed to update tag");
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <button className="text-zinc-400 hover:text-indigo-600 transition-colors p-1">
@@ -65,24 +66,24 @@ const EditTagModal: React.FC<EditTagModalProps> = ({ tag, onTagUpdated, trigger
           <DialogTitle>Edit Tag</DialogTitle>
         </DialogHeader>
 
-        {error && (
+        {errors.root?.server && (
           <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
-            {error}
+            {errors.root.server.message}
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4 py-4">
           <div className="space-y-2">
             <label htmlFor="edit-name" className="text-sm font-medium text-zinc-900">
               Tag Name
             </label>
             <input
               id="edit-name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm"
-              required
+              {...register("name")}
+              aria-invalid={!!errors.name}
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm ${errors.name ? "border-red-300" : "border-zinc-200"}`}
             />
+            <FieldError message={errors.name?.message} />
           </div>
 
           <div className="space-y-2">
@@ -94,10 +95,11 @@ const EditTagModal: React.FC<EditTagModalProps> = ({ tag, onTagUpdated, trigger
             </p>
             <textarea
               id="edit-semantic"
-              value={semantic}
-              onChange={(e) => setSemantic(e.target.value)}
-              className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[80px]"
+              {...register("semantic")}
+              aria-invalid={!!errors.semantic}
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm min-h-[80px] ${errors.semantic ? "border-red-300" : "border-zinc-200"}`}
             />
+            <FieldError message={errors.semantic?.message} />
           </div>
 
           <DialogFooter>
@@ -110,10 +112,10 @@ const EditTagModal: React.FC<EditTagModalProps> = ({ tag, onTagUpdated, trigger
             </button>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isSubmitting}
               className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors disabled:opacity-50"
             >
-              {isLoading ? "Saving..." : "Save Changes"}
+              {isSubmitting ? "Saving..." : "Save Changes"}
             </button>
           </DialogFooter>
         </form>
@@ -0,0 +1,11 @@
+import React from "react";
+
+// The message under an input for its react-hook-form error, if any.
+const FieldError: React.FC<{ id?: string; message?: string }> = ({ id, message }) =>
+  message ? (
+    <p id={id} role="alert" className="text-xs text-red-600">
+      {message}
+    </p>
+  ) : null;
+
+export default FieldError;
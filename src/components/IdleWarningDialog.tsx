@@ -0,0 +1,60 @@
+import React from "react";
+import { Clock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/context/AuthContext";
+
+// Shown during the last minute before the inactivity sign-out (see AuthContext).
+// Only the button counts as activity here, so a stray mouse move on a shared
+// machine doesn't keep someone else's account open.
+const IdleWarningDialog: React.FC = () => {
+  const { idleSecondsLeft, stayActive, logout } = useAuth();
+
+  return (
+    <Dialog open={idleSecondsLeft !== null}>
+      <DialogContent
+        showCloseButton={false}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+        className="max-w-sm"
+      >
+        <DialogHeader>
+          <div className="w-10 h-10 rounded-full bg-zinc-100 flex items-center justify-center text-zinc-600 mb-2 mx-auto sm:mx-0">
+            <Clock size={18} />
+          </div>
+          <DialogTitle>Are you still there?</DialogTitle>
+          <DialogDescription>
+            You'll be signed out in <span className="font-medium text-zinc-900 tabular-nums">{idleSecondsLeft}s</span> due
+            to inactivity.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={logout}
+            className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors"
+          >
+            Sign out
+          </button>
+          <button
+            type="button"
+            onClick={stayActive}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors"
+          >
+            Stay signed in
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IdleWarningDialog;
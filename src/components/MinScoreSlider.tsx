@@ -0,0 +1,43 @@
+import React, { useState } from "react";
+
+interface MinScoreSliderProps {
+  // 0-1
+  value: number;
+  // Called once the user lets go, not on every step of a drag.
+  onCommit: (value: number) => void;
+}
+
+// "Hide matches below N%" for search results.
+const MinScoreSlider: React.FC<MinScoreSliderProps> = ({ value, onCommit }) => {
+  const [draft, setDraft] = useState<number | null>(null);
+  const percent = Math.round((draft ?? value) * 100);
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <label className="flex items-center gap-3 text-xs text-zinc-500">
+      <span className="shrink-0">Minimum match</span>
+      <input
+        type="range"
+        min={0}
+        max={90}
+        step={5}
+        value={percent}
+        onChange={(e) => setDraft(Number(e.target.value) / 100)}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="w-full sm:w-48 accent-zinc-900"
+      />
+      <span className="w-20 shrink-0 tabular-nums font-medium text-zinc-700">
+        {percent === 0 ? "Show all" : `${percent}% or more`}
+      </span>
+    </label>
+  );
+};
+
+export default MinScoreSlider;
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { Github, Loader2 } from "lucide-react";
+import { OAUTH_PROVIDERS, type OAuthProvider } from "@/lib/domain";
+import { getErrorMessage } from "@/lib/errors";
+import { startOAuth, startOAuthPopup } from "@/lib/oauth";
+
+const GoogleIcon: React.FC = () => (
+  <svg viewBox="0 0 24 24" width={16} height={16} aria-hidden="true">
+    <path fill="#4285F4" d="M23.5 12.3c0-.8-.1-1.6-.2-2.3H12v4.5h6.5a5.6 5.6 0 0 1-2.4 3.6v3h3.9c2.2-2.1 3.5-5.1 3.5-8.8z" />
+    <path fill="#34A853" d="M12 24c3.2 0 6-1.1 8-2.9l-3.9-3c-1.1.7-2.5 1.2-4.1 1.2-3.1 0-5.8-2.1-6.7-5H1.3v3.1A12 12 0 0 0 12 24z" />
+    <path fill="#FBBC05" d="M5.3 14.3a7.2 7.2 0 0 1 0-4.6V6.6H1.3a12 12 0 0 0 0 10.8l4-3.1z" />
+    <path fill="#EA4335" d="M12 4.8c1.8 0 3.3.6 4.6 1.8l3.4-3.4A12 12 0 0 0 1.3 6.6l4 3.1c.9-2.8 3.6-4.9 6.7-4.9z" />
+  </svg>
+);
+
+const ICONS: Record<OAuthProvider, React.ReactNode> = {
+  google: <GoogleIcon />,
+  github: <Github size={16} />,
+};
+
+interface OAuthButtonsProps {
+  // Where to land after signing in.
+  returnTo?: string;
+  // Sign in in a popup and stay on this page (see startOAuthPopup).
+  popup?: boolean;
+}
+
+// "Continue with ..." buttons, shown under a divider below the email form.
+const OAuthButtons: React.FC<OAuthButtonsProps> = ({ returnTo, popup = false }) => {
+  const [redirecting, setRedirecting] = useState<OAuthProvider | null>(null);
+  const [error, setError] = useState("");
+  const [hint, setHint] = useState("");
+
+  const handleClick = async (provider: OAuthProvider) => {
+    setError("");
+    setHint("");
+    setRedirecting(provider);
+    try {
+      if (popup) {
+        const opened = await startOAuthPopup(provider);
+        setRedirecting(null);
+        if (opened) setHint(`Finish signing in with ${OAUTH_PROVIDERS[provider]} in the window that opened.`);
+        else setError(`Allow pop-ups for this site to continue with ${OAUTH_PROVIDERS[provider]}.`);
+        return;
+      }
+      // Navigates away on success, so the button stays busy.
+      await startOAuth(provider, returnTo);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err, `Couldn't reach ${OAUTH_PROVIDERS[provider]}. Please try again.`));
+      setRedirecting(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center gap-3 text-xs text-zinc-400 uppercase tracking-wider">
+        <div className="h-px flex-1 bg-zinc-200" />
+        or
+        <div className="h-px flex-1 bg-zinc-200" />
+      </div>
+
+      {(Object.keys(OAUTH_PROVIDERS) as OAuthProvider[]).map((provider) => (
+        <button
+          key={provider}
+          type="button"
+          onClick={() => handleClick(provider)}
+          disabled={redirecting !== null}
+          className="w-full flex items-center justify-center gap-2.5 py-2.5 px-4 bg-white border border-zinc-200 text-zinc-900 text-sm font-medium rounded-xl hover:bg-zinc-50 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm"
+        >
+          {redirecting === provider ? <Loader2 size={16} className="animate-spin" /> : ICONS[provider]}
+          Continue with {OAUTH_PROVIDERS[provider]}
+        </button>
+      ))}
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+      {hint && <p className="text-sm text-zinc-500 text-center">{hint}</p>}
+    </div>
+  );
+};
+
+export default OAuthButtons;
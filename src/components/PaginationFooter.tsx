@@ -0,0 +1,82 @@
+import React from "react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import type { PageControls } from "@/hooks/useChunkedPagination";
+
+interface PaginationFooterProps {
+  pagination: PageControls;
+  disabled?: boolean;
+  // Offer these page sizes; without them the size is fixed.
+  pageSizeOptions?: number[];
+  // e.g. "matches" while searching.
+  noun?: string;
+  // Smaller text and buttons, for lists inside dialogs.
+  compact?: boolean;
+  // Offer "Load more" (appending the next page) alongside Next; leave it out
+  // when there is nothing more to load.
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+}
+
+const PaginationFooter: React.FC<PaginationFooterProps> = ({
+  pagination,
+  disabled = false,
+  pageSizeOptions,
+  noun,
+  compact = false,
+  onLoadMore,
+  isLoadingMore = false,
+}) => {
+  const { range, limit, canGoNext, canGoPrev, next, prev, setPageSize } = pagination;
+  const buttonClass = compact
+    ? "p-1 rounded hover:bg-white hover:shadow-sm border border-transparent hover:border-zinc-200 disabled:opacity-30 disabled:pointer-events-none transition-all text-zinc-600"
+    : "p-2 rounded-lg bg-white border border-zinc-200 text-zinc-500 hover:text-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm active:scale-95 transition-transform";
+
+  return (
+    <div
+      className={`border-t border-zinc-100 bg-zinc-50/50 flex items-center justify-between gap-3 ${
+        compact ? "px-4 py-2" : "px-4 sm:px-6 py-3"
+      }`}
+    >
+      <span className={`${compact ? "text-[10px]" : "text-xs"} text-zinc-500`}>
+        {range.start}-{range.end} of {range.total}
+        {range.totalIsExact ? "" : "+"}
+        {noun && ` ${noun}`}
+      </span>
+      <div className={`flex items-center ${compact ? "gap-1" : "gap-2"}`}>
+        {onLoadMore && (
+          <button
+            onClick={onLoadMore}
+            disabled={disabled || isLoadingMore}
+            className="mr-1 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-zinc-600 hover:text-zinc-900 disabled:opacity-50"
+          >
+            {isLoadingMore && <Loader2 size={12} className="animate-spin" />}
+            Load more
+          </button>
+        )}
+        {pageSizeOptions && (
+          <select
+            value={limit}
+            onChange={(e) => setPageSize(Number(e.target.value))}
+            disabled={disabled}
+            aria-label="Rows per page"
+            className="mr-1 px-2 py-1.5 text-xs bg-white border border-zinc-200 rounded-lg text-zinc-600 shadow-sm focus:outline-none focus:ring-2 focus:ring-zinc-900"
+          >
+            {pageSizeOptions.map((size) => (
+              <option key={size} value={size}>
+                {size} / page
+              </option>
+            ))}
+          </select>
+        )}
+        <button onClick={prev} disabled={!canGoPrev || disabled} aria-label="Previous page" className={buttonClass}>
+          <ChevronLeft size={compact ? 14 : 16} />
+        </button>
+        <button onClick={next} disabled={!canGoNext || disabled} aria-label="Next page" className={buttonClass}>
+          <ChevronRight size={compact ? 14 : 16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaginationFooter;
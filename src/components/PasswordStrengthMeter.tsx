@@ -0,0 +1,35 @@
+import React from "react";
+import { getPasswordStrength } from "@/lib/passwordStrength";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  // The user's name, email, etc.; passwords containing them score lower.
+  personal?: string[];
+}
+
+const BAR_COLORS = ["bg-red-500", "bg-red-500", "bg-amber-500", "bg-lime-500", "bg-green-600"];
+const LABEL_COLORS = ["text-red-600", "text-red-600", "text-amber-600", "text-lime-700", "text-green-700"];
+
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, personal }) => {
+  if (!password) return null;
+  const { score, label, hint } = getPasswordStrength(password, personal);
+
+  return (
+    <div className="space-y-1.5 ml-1" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((bar) => (
+          <div
+            key={bar}
+            className={`h-1 flex-1 rounded-full transition-colors ${bar <= Math.max(score, 1) ? BAR_COLORS[score] : "bg-zinc-200"}`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-zinc-500">
+        <span className={`font-medium ${LABEL_COLORS[score]}`}>{label}</span>
+        {hint && <> · {hint}</>}
+      </p>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
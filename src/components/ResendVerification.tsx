@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "react-router-dom";
+import { resendVerification } from "@/lib/client";
+import { isApiError } from "@/lib/errors";
+import { applyServerErrors, emailFormSchema, type EmailFormValues } from "@/lib/forms";
+import { useCooldown } from "@/hooks/useCooldown";
+import FieldError from "@/components/FieldError";
+
+const RESEND_COOLDOWN_S = 60;
+
+interface ResendVerificationProps {
+  // Known address (e.g. straight after signup); otherwise the user types it in.
+  email?: string;
+  // An email was sent moments ago, so start with the cooldown running.
+  justSent?: boolean;
+}
+
+const ResendVerification: React.FC<ResendVerificationProps> = ({ email: knownEmail, justSent = false }) => {
+  const form = useForm<EmailFormValues>({
+    resolver: zodResolver(emailFormSchema),
+    defaultValues: { email: knownEmail ?? "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+  const [status, setStatus] = useState<"idle" | "sent" | "already-verified">("idle");
+  const { secondsLeft, start } = useCooldown(justSent ? RESEND_COOLDOWN_S : 0);
+
+  const handleResend = async ({ email }: EmailFormValues) => {
+    try {
+      await resendVerification(email);
+      setStatus("sent");
+      start(RESEND_COOLDOWN_S);
+    } catch (err) {
+      console.error(err);
+      if (isApiError(err) && err.code === "ALREADY_VERIFIED") {
+        setStatus("already-verified");
+      } else if (isApiError(err) && err.kind === "rate-limit") {
+        // The server's cooldown wins over ours.
+        start((err.retryAfterMs ?? RESEND_COOLDOWN_S * 1000) / 1000);
+      } else {
+        applyServerErrors(form, err, "Failed to resend verification email");
+      }
+    }
+  };
+
+  if (status === "already-verified") {
+    return (
+      <div className="p-4 bg-green-50 border border-green-100 text-green-700 rounded-xl text-sm space-y-2">
+        <p>This email is already verified. You can sign in now.</p>
+        <Link to="/login" className="font-semibold text-green-800 hover:underline underline-offset-4">
+          Go to Login
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(handleResend)} noValidate className="space-y-3 text-left">
+      {!knownEmail && (
+        <div className="space-y-2">
+          <input
+            type="email"
+            placeholder="name@example.com"
+            {...register("email")}
+            aria-invalid={!!errors.email}
+            className={`w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm ${errors.email ? "border-red-300 focus:ring-red-500" : ""}`}
+          />
+          <FieldError message={errors.email?.message} />
+        </div>
+      )}
+
+      {status === "sent" && (
+        <p className="text-sm text-green-700 text-center">A new verification link is on its way.</p>
+      )}
+      {errors.root?.server && <p className="text-sm text-red-600 text-center">{errors.root.server.message}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || secondsLeft > 0}
+        className="w-full py-2.5 px-4 border border-zinc-200 text-sm font-semibold rounded-xl hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {isSubmitting
+          ? "Sending..."
+          : secondsLeft > 0
+            ? `Resend available in ${secondsLeft}s`
+            : "Resend verification email"}
+      </button>
+    </form>
+  );
+};
+
+export default ResendVerification;
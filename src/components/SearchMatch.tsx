@@ -0,0 +1,114 @@
+import React, { useId, useState } from "react";
+import { createPortal } from "react-dom";
+import { Info } from "lucide-react";
+import type { SearchHit } from "@/lib/domain";
+import { buildSnippet, explainMatch, highlightParts, queryTerms } from "@/lib/searchMatch";
+
+interface SearchMatchProps {
+  hit: SearchHit;
+  query: string;
+}
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {highlightParts(text, terms).map((part, i) =>
+      part.match ? (
+        <mark key={i} className="bg-amber-100 text-zinc-900 rounded-sm px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={i}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const TOOLTIP_WIDTH = 256;
+
+// Rendered in a portal, positioned under the trigger, so the list's overflow doesn't clip it.
+const WhyTooltip: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const tooltipId = useId();
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const show = (e: React.SyntheticEvent<HTMLElement>) => setAnchor(e.currentTarget.getBoundingClientRect());
+  const hide = () => setAnchor(null);
+
+  return (
+    <>
+      <button
+        type="button"
+        aria-describedby={anchor ? tooltipId : undefined}
+        onMouseEnter={show}
+        onMouseLeave={hide}
+        onFocus={show}
+        onBlur={hide}
+        className="flex items-center gap-1 text-zinc-400 hover:text-zinc-600 focus:text-zinc-600 focus:outline-none"
+      >
+        <Info size={12} />
+        Why this matched
+      </button>
+      {anchor &&
+        createPortal(
+          <span
+            id={tooltipId}
+            role="tooltip"
+            style={{
+              top: anchor.bottom + 6,
+              left: Math.max(8, Math.min(anchor.left, window.innerWidth - TOOLTIP_WIDTH - 8)),
+              width: TOOLTIP_WIDTH,
+            }}
+            className="fixed z-50 rounded-lg bg-zinc-900 text-white text-xs p-3 shadow-lg space-y-1 pointer-events-none"
+          >
+            {children}
+          </span>,
+          document.body
+        )}
+    </>
+  );
+};
+
+const scoreColor = (score: number) =>
+  score >= 0.75
+    ? "bg-green-50 text-green-700 border-green-200"
+    : score >= 0.4
+      ? "bg-amber-50 text-amber-700 border-amber-200"
+      : "bg-zinc-50 text-zinc-500 border-zinc-200";
+
+// The score badge, "why this matched" tooltip and highlighted snippet under a search result's title.
+const SearchMatch: React.FC<SearchMatchProps> = ({ hit, query }) => {
+  const terms = queryTerms(query);
+  const snippet = buildSnippet(hit, terms);
+  const matches = explainMatch(hit, terms);
+  // Not every backend scores its hits.
+  const percent = hit.score === undefined ? undefined : Math.round(hit.score * 100);
+
+  return (
+    <div className="mt-1.5 space-y-1.5">
+      <div className="flex items-center gap-2 text-xs">
+        {hit.score !== undefined && (
+          <span className={`px-1.5 py-0.5 rounded-md border text-[10px] font-semibold tabular-nums ${scoreColor(hit.score)}`}>
+            {percent}% match
+          </span>
+        )}
+        <WhyTooltip>
+          {percent !== undefined && <span className="block">Similarity to your search: {percent}%.</span>}
+          {matches.length > 0 ? (
+            matches.map(({ field, terms: found }) => (
+              <span key={field} className="block text-zinc-300">
+                {found.map((term) => `“${term}”`).join(", ")} in the {field}
+              </span>
+            ))
+          ) : (
+            <span className="block text-zinc-300">No words in common; it matched on meaning.</span>
+          )}
+        </WhyTooltip>
+      </div>
+      {snippet && (
+        <p className="text-xs text-zinc-600 leading-relaxed line-clamp-2">
+          <Highlighted text={snippet} terms={terms} />
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SearchMatch;
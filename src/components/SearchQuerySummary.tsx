@@ -0,0 +1,67 @@
+import React from "react";
+import { AlertCircle } from "lucide-react";
+import { CONTENT_TYPES } from "@/lib/domain";
+import type { ParsedSearchQuery } from "@/lib/searchQuery";
+
+interface SearchQuerySummaryProps {
+  parsed: ParsedSearchQuery;
+  // tag: names that matched no tag.
+  unknownTags: string[];
+  // Some filter tag had too many contents to look them all up (see listTagMembers).
+  partialTags?: boolean;
+}
+
+const Chip: React.FC<{ children: React.ReactNode; negative?: boolean }> = ({ children, negative = false }) => (
+  <span
+    className={`px-2 py-0.5 rounded-md border text-[11px] font-medium ${
+      negative ? "bg-red-50 border-red-200 text-red-700" : "bg-indigo-50 border-indigo-200 text-indigo-700"
+    }`}
+  >
+    {children}
+  </span>
+);
+
+// Shows how the search box's filters and phrases were understood, and what wasn't.
+const SearchQuerySummary: React.FC<SearchQuerySummaryProps> = ({ parsed, unknownTags, partialTags = false }) => {
+  const { phrases, contentType, tags, excludeTags, invalid } = parsed;
+  if (!phrases.length && !contentType && !tags.length && !excludeTags.length && !invalid.length && !partialTags) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-zinc-500">
+      {phrases.map((phrase) => (
+        <Chip key={`phrase-${phrase}`}>Exactly “{phrase}”</Chip>
+      ))}
+      {contentType && <Chip>Type: {CONTENT_TYPES.find((t) => t.value === contentType)?.label}</Chip>}
+      {tags.map((tag) => (
+        <Chip key={`tag-${tag}`}>Tag: {tag}</Chip>
+      ))}
+      {excludeTags.map((tag) => (
+        <Chip key={`not-${tag}`} negative>
+          Not tag: {tag}
+        </Chip>
+      ))}
+      {unknownTags.length > 0 && (
+        <span className="flex items-center gap-1 text-amber-700">
+          <AlertCircle size={12} />
+          No tag named {unknownTags.map((tag) => `“${tag}”`).join(", ")}
+        </span>
+      )}
+      {invalid.length > 0 && (
+        <span className="flex items-center gap-1 text-amber-700">
+          <AlertCircle size={12} />
+          Ignored {invalid.join(", ")} (types are {CONTENT_TYPES.map((t) => t.value).join(", ")})
+        </span>
+      )}
+      {partialTags && (
+        <span className="flex items-center gap-1 text-amber-700">
+          <AlertCircle size={12} />
+          Some tags have too many contents to check them all; tag filters may let a few through or leave a few out
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default SearchQuerySummary;
@@ -0,0 +1,121 @@
+import React from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ShieldCheck } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { applyServerErrors, secondFactorFormSchema, type SecondFactorFormValues } from "@/lib/forms";
+import type { User } from "@/lib/schemas";
+import FieldError from "@/components/FieldError";
+
+const inputClass =
+  "w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-center";
+const errorRing = "border-red-300 focus:ring-red-500";
+
+interface SecondFactorFormProps {
+  onSignedIn: (user: User) => void;
+}
+
+// The second step of signing in for accounts with 2FA. Used by the login page
+// and the session-expired dialog once `login` reports a second factor is needed.
+const SecondFactorForm: React.FC<SecondFactorFormProps> = ({ onSignedIn }) => {
+  const { loginStep, verifySecondFactor, cancelLogin } = useAuth();
+  const form = useForm<SecondFactorFormValues>({
+    resolver: zodResolver(secondFactorFormSchema),
+    defaultValues: { method: "totp", code: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+  const method = useWatch({ control: form.control, name: "method" });
+  const codeField = register("code");
+
+  const onSubmit = async ({ code, method }: SecondFactorFormValues) => {
+    try {
+      onSignedIn(await verifySecondFactor(code, method));
+    } catch (err) {
+      console.error(err);
+      form.setValue("code", "");
+      applyServerErrors(form, err, "Failed to verify code");
+    }
+  };
+
+  const switchMethod = () => form.reset({ method: method === "totp" ? "recovery" : "totp", code: "" });
+
+  return (
+    <div className="space-y-5">
+      <div className="text-center space-y-2">
+        <div className="w-12 h-12 bg-zinc-100 text-zinc-700 rounded-full flex items-center justify-center mx-auto">
+          <ShieldCheck size={22} />
+        </div>
+        <h2 className="text-xl font-bold text-zinc-900">Two-factor authentication</h2>
+        <p className="text-sm text-zinc-500">
+          {method === "totp"
+            ? "Enter the 6-digit code from your authenticator app"
+            : "Enter one of the recovery codes you saved when setting up 2FA"}
+          {loginStep.step === "second-factor" && loginStep.email && (
+            <>
+              {" "}for <span className="font-medium text-zinc-900">{loginStep.email}</span>
+            </>
+          )}
+        </p>
+      </div>
+
+      {errors.root?.server && (
+        <div className="p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+          <div className="w-1.5 h-1.5 rounded-full bg-red-600" />
+          {errors.root.server.message}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4">
+        <div className="space-y-2">
+          {method === "totp" ? (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              maxLength={6}
+              {...codeField}
+              onChange={(e) => {
+                e.target.value = e.target.value.replace(/\D/g, "");
+                codeField.onChange(e);
+              }}
+              aria-invalid={!!errors.code}
+              className={`${inputClass} text-lg tracking-[0.5em] font-mono ${errors.code ? errorRing : ""}`}
+              autoFocus
+            />
+          ) : (
+            <input
+              type="text"
+              autoComplete="off"
+              placeholder="xxxxx-xxxxx"
+              {...codeField}
+              aria-invalid={!!errors.code}
+              className={`${inputClass} font-mono ${errors.code ? errorRing : ""}`}
+              autoFocus
+            />
+          )}
+          <FieldError message={errors.code?.message} />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 px-4 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm active:scale-[0.98]"
+        >
+          {isSubmitting ? "Verifying..." : "Verify"}
+        </button>
+      </form>
+
+      <div className="flex items-center justify-between text-sm">
+        <button type="button" onClick={cancelLogin} className="text-zinc-500 hover:text-black transition-colors">
+          Back
+        </button>
+        <button type="button" onClick={switchMethod} className="text-zinc-500 hover:text-black transition-colors">
+          {method === "totp" ? "Use a recovery code" : "Use authenticator app"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SecondFactorForm;
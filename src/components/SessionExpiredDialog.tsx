@@ -0,0 +1,151 @@
+import React, { useEffect, useSyncExternalStore } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Lock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/context/AuthContext";
+import {
+  abandonReauthentication,
+  completeReauthentication,
+  isReauthPending,
+  registerReauthHandler,
+  subscribeReauth,
+} from "@/lib/reauth";
+import { getAccessToken } from "@/lib/session";
+import { applyServerErrors, loginFormSchema, type LoginFormValues } from "@/lib/forms";
+import type { User } from "@/lib/schemas";
+import SecondFactorForm from "@/components/SecondFactorForm";
+import OAuthButtons from "@/components/OAuthButtons";
+import FieldError from "@/components/FieldError";
+
+const inputClass =
+  "w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm";
+
+// Shown when the session can no longer be refreshed. Signing in here keeps the
+// current page (and any half-written form) intact and retries the requests
+// that were waiting on a new token.
+const SessionExpiredDialog: React.FC = () => {
+  const { user, login, loginStep } = useAuth();
+  const isOpen = useSyncExternalStore(subscribeReauth, isReauthPending);
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginFormSchema),
+    defaultValues: { email: "", password: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+
+  useEffect(() => registerReauthHandler(), []);
+
+  const resume = (signedIn: User) => {
+    if (user && signedIn.id !== user.id) {
+      // A different account: the page state belongs to someone else, start over.
+      window.location.assign("/");
+      return;
+    }
+    form.resetField("password");
+    completeReauthentication(getAccessToken()!);
+  };
+
+  const onSubmit = async ({ email, password }: LoginFormValues) => {
+    try {
+      const signedIn = await login(email, password);
+      // null: a 2FA code is needed first (SecondFactorForm takes over).
+      if (signedIn) resume(signedIn);
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to sign in");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen}>
+      <DialogContent
+        showCloseButton={false}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+        className="max-w-sm"
+      >
+        <DialogHeader>
+          <div className="w-10 h-10 rounded-full bg-zinc-100 flex items-center justify-center text-zinc-600 mb-2 mx-auto sm:mx-0">
+            <Lock size={18} />
+          </div>
+          <DialogTitle>Session expired</DialogTitle>
+          <DialogDescription>
+            Sign in again to continue. Your unsaved changes on this page will be kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loginStep.step === "second-factor" ? (
+          <SecondFactorForm onSignedIn={resume} />
+        ) : (
+          <>
+            {errors.root?.server && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+                {errors.root.server.message}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="reauth-email" className="text-sm font-medium text-zinc-900">
+                  Email
+                </label>
+                <input
+                  id="reauth-email"
+                  type="email"
+                  autoComplete="email"
+                  {...register("email")}
+                  aria-invalid={!!errors.email}
+                  className={`${inputClass} ${errors.email ? "border-red-300" : "border-zinc-200"}`}
+                />
+                <FieldError message={errors.email?.message} />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="reauth-password" className="text-sm font-medium text-zinc-900">
+                  Password
+                </label>
+                <input
+                  id="reauth-password"
+                  type="password"
+                  autoComplete="current-password"
+                  {...register("password")}
+                  aria-invalid={!!errors.password}
+                  className={`${inputClass} ${errors.password ? "border-red-300" : "border-zinc-200"}`}
+                />
+                <FieldError message={errors.password?.message} />
+              </div>
+
+              <DialogFooter>
+                <button
+                  type="button"
+                  onClick={() => abandonReauthentication()}
+                  className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors"
+                >
+                  Sign out
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-black rounded-md hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                >
+                  {isSubmitting ? "Signing in..." : "Sign In"}
+                </button>
+              </DialogFooter>
+            </form>
+
+            {/* For accounts that sign in through a provider (they may have no password). */}
+            <OAuthButtons popup />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionExpiredDialog;
@@ -1,21 +1,9 @@
 import React, { useEffect, useState } from "react";
-import { Search, ChevronLeft, ChevronRight, Check } from "lucide-react";
-import api from "@/lib/api";
-
-interface Tag {
-  id: string;
-  name: string;
-  semantic?: string;
-  createdAt: string;
-}
-
-interface PaginationMetadata {
-  nextChunkId: string | null;
-  chunkSize: number;
-  chunkTotalItems: number;
-  limit: number;
-  offset: number;
-}
+import { Search, Check } from "lucide-react";
+import { listTags } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import { useChunkedPagination } from "@/hooks/useChunkedPagination";
+import PaginationFooter from "@/components/PaginationFooter";
 
 interface TagSelectorProps {
   selectedTagIds: string[];
@@ -25,104 +13,26 @@ interface TagSelectorProps {
 const LIMIT = 5;
 
 const TagSelector: React.FC<TagSelectorProps> = ({ selectedTagIds, onToggleTag }) => {
-  const [tags, setTags] = useState<Tag[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Pagination State
-  const [offset, setOffset] = useState(0);
-  const [chunkId, setChunkId] = useState<string | undefined>(undefined);
-  const [chunkStack, setChunkStack] = useState<string[]>([]); // To go back to previous chunks
-  const [metadata, setMetadata] = useState<PaginationMetadata | null>(null);
-
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedQuery, setDebouncedQuery] = useState("");
 
+  const { query, items: tags, pagination } = useChunkedPagination({
+    queryKey: ["tags", { debouncedQuery }],
+    fetchPage: (page, options) => listTags({ ...page, q: debouncedQuery }, options),
+    pageSize: LIMIT,
+  });
+  const { isLoading, error, refetch } = query;
+  const { reset } = pagination;
+
   // Debounce search query
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedQuery(searchQuery);
-      setOffset(0);
-      setChunkId(undefined);
-      setChunkStack([]);
+      reset();
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [searchQuery]);
-
-  const fetchTags = async (currentOffset: number, currentChunkId?: string) => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const params = new URLSearchParams({
-        limit: LIMIT.toString(),
-        offset: currentOffset.toString(),
-      });
-      if (currentChunkId) params.append("chunkId", currentChunkId);
-      if (debouncedQuery) params.append("q", debouncedQuery);
-
-      const response = await api.get(`/tag?${params.toString()}`);
-      setTags(response.data.data || []);
-      setMetadata(response.data.metadata);
-    } catch (err: any) {
-      console.error("Failed to fetch tags:", err);
-      if (err.response?.status === 429) {
-        setError("Rate limit exceeded.");
-      } else {
-        setError("Failed to load tags.");
-      }
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchTags(offset, chunkId);
-  }, [offset, chunkId, debouncedQuery]);
-
-  const handleNext = () => {
-    if (!metadata) return;
-
-    if (debouncedQuery) {
-      if (offset + LIMIT < metadata.chunkTotalItems) {
-        setOffset(offset + LIMIT);
-      }
-    } else {
-      if (offset + LIMIT < metadata.chunkTotalItems) {
-        setOffset(offset + LIMIT);
-      } else if (metadata.nextChunkId) {
-        setChunkStack([...chunkStack, chunkId || ""]);
-        setChunkId(metadata.nextChunkId);
-        setOffset(0);
-      }
-    }
-  };
-
-  const handlePrev = () => {
-    if (debouncedQuery) {
-      if (offset - LIMIT >= 0) {
-        setOffset(offset - LIMIT);
-      }
-    } else {
-      if (offset - LIMIT >= 0) {
-        setOffset(offset - LIMIT);
-      } else if (chunkStack.length > 0) {
-        const prevStack = [...chunkStack];
-        const prevChunk = prevStack.pop();
-        setChunkStack(prevStack);
-        setChunkId(prevChunk === "" ? undefined : prevChunk);
-        setOffset(0);
-      }
-    }
-  };
-
-  const canGoNext = metadata ? (
-    debouncedQuery 
-      ? offset + LIMIT < metadata.chunkTotalItems 
-      : (offset + LIMIT < metadata.chunkTotalItems || !!metadata.nextChunkId)
-  ) : false;
-
-  const canGoPrev = debouncedQuery ? offset > 0 : (offset > 0 || chunkStack.length > 0);
+  }, [searchQuery, reset]);
 
   return (
     <div className="space-y-4">
@@ -146,9 +56,9 @@ const TagSelector: React.FC<TagSelectorProps> = ({ selectedTagIds, onToggleTag }
           <div className="flex-1 flex items-center justify-center p-8 text-center text-zinc-400">Loading tags...</div>
         ) : error ? (
           <div className="flex-1 flex flex-col items-center justify-center p-4 text-center">
-            <p className="text-sm text-red-600 mb-2">{error}</p>
+            <p className="text-sm text-red-600 mb-2">{getErrorMessage(error, "Failed to load tags.")}</p>
             <button 
-              onClick={() => fetchTags(offset, chunkId)}
+              onClick={() => refetch()}
               className="text-xs text-indigo-600 hover:underline"
             >
               Retry
@@ -189,27 +99,12 @@ const TagSelector: React.FC<TagSelectorProps> = ({ selectedTagIds, onToggleTag }
 
         {/* Pagination Footer */}
         {tags.length > 0 && (
-          <div className="border-t border-zinc-100 px-4 py-2 flex items-center justify-between bg-zinc-50/50">
-            <span className="text-[10px] text-zinc-500">
-              {offset + 1}-{Math.min(offset + LIMIT, metadata?.chunkTotalItems || 0)} of {metadata?.chunkTotalItems || 0} {debouncedQuery ? "matches" : ""}
-            </span>
-            <div className="flex items-center gap-1">
-              <button
-                onClick={handlePrev}
-                disabled={!canGoPrev || isLoading}
-                className="p-1 rounded hover:bg-white hover:shadow-sm border border-transparent hover:border-zinc-200 disabled:opacity-30 disabled:pointer-events-none transition-all text-zinc-600"
-              >
-                <ChevronLeft size={14} />
-              </button>
-              <button
-                onClick={handleNext}
-                disabled={!canGoNext || isLoading}
-                className="p-1 rounded hover:bg-white hover:shadow-sm border border-transparent hover:border-zinc-200 disabled:opacity-30 disabled:pointer-events-none transition-all text-zinc-600"
-              >
-                <ChevronRight size={14} />
-              </button>
-            </div>
-          </div>
+          <PaginationFooter
+            pagination={pagination}
+            disabled={isLoading}
+            noun={debouncedQuery ? "matches" : undefined}
+            compact
+          />
         )}
       </div>
     </div>
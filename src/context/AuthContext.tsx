@@ -1,43 +1,108 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import api from "@/lib/api";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  changePassword,
+  deleteAccount,
+  exchangeOAuthCode,
+  fetchCurrentUser,
+  linkOAuthAccount,
+  requestPasswordReset,
+  requestSignup,
+  resetPassword,
+  setInitialPassword,
+  signIn,
+  updateProfile,
+  verifyLoginMfa,
+} from "@/lib/client";
+import { isApiError } from "@/lib/errors";
+import { currentPath } from "@/lib/navigation";
+import type { OAuthProvider } from "@/lib/domain";
+import type { LoginResponse, MfaChallenge, User } from "@/lib/schemas";
+import { oauthRedirectUri } from "@/lib/oauth";
+import { IDLE_TIMEOUT_MS } from "@/lib/config";
+import { recordActivity, startIdleTimer } from "@/lib/idle";
+import { useToast } from "@/hooks/useToast";
+import {
+  clearTokens,
+  endSession,
+  getAccessToken,
+  onSessionEvent,
+  restoreSession,
+  startSession,
+  startProactiveRefresh,
+} from "@/lib/session";
 
-interface User {
-  id: string;
-  name: string;
-  role: string;
-}
+// Signing in is a small state machine: credentials (or an OAuth provider)
+// first, then, for accounts with 2FA, a code from an authenticator app or a
+// recovery code. An OAuth sign-in whose email already has a password account
+// first asks for that password to link the two.
+export type LoginStep =
+  | { step: "credentials" }
+  | { step: "second-factor"; email: string }
+  | { step: "link-account"; email: string; provider: OAuthProvider };
+
+// LoginStep plus the server's token for finishing it.
+type PendingLogin =
+  | { step: "second-factor"; email: string; mfaToken: string }
+  | { step: "link-account"; email: string; provider: OAuthProvider; linkToken: string };
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  loginStep: LoginStep;
+  // These resolve with the user, or null when loginStep moved on to another step.
+  login: (email: string, password: string) => Promise<User | null>;
+  loginWithOAuth: (provider: OAuthProvider, code: string) => Promise<User | null>;
+  linkAccount: (password: string) => Promise<User | null>;
+  verifySecondFactor: (code: string, method?: "totp" | "recovery") => Promise<User>;
+  cancelLogin: () => void;
   register: (email: string, password: string, name: string) => Promise<void>;
+  forgotPassword: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  updateName: (name: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // For accounts without a password (user.hasPassword === false).
+  setPassword: (newPassword: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
   logout: () => void;
+  // Seconds until the inactivity sign-out while its warning is showing, otherwise null.
+  idleSecondsLeft: number | null;
+  stayActive: () => void;
 }
 
+const IDLE_WARNING_MS = 60_000;
+
+const toLoginStep = (pending: PendingLogin | null): LoginStep => {
+  if (!pending) return { step: "credentials" };
+  if (pending.step === "second-factor") return { step: pending.step, email: pending.email };
+  return { step: pending.step, email: pending.email, provider: pending.provider };
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const navigate = useNavigate();
+  const toast = useToast();
+  const queryClient = useQueryClient();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const [pendingLogin, setPendingLogin] = useState<PendingLogin | null>(null);
 
   const fetchUser = async () => {
-    const token = localStorage.getItem("token");
+    const token = await restoreSession();
     if (!token) {
       setIsLoading(false);
       return;
     }
 
     try {
-      const response = await api.get<{ user: User }>("/auth/me");
-      setUser(response.data.user);
+      setUser(await fetchCurrentUser());
     } catch (error) {
       console.error("Failed to fetch user:", error);
-      localStorage.removeItem("token");
-      localStorage.removeItem("refreshToken");
+      clearTokens();
     } finally {
       setIsLoading(false);
     }
@@ -47,27 +112,166 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     fetchUser();
   }, []);
 
-  const login = async (email: string, password: string) => {
-    const response = await api.post("/auth/login", { email, password });
-    const { accessToken, refreshToken, user } = response.data;
-    localStorage.setItem("token", accessToken);
-    localStorage.setItem("refreshToken", refreshToken);
+  // Follow sign-outs that happen in other tabs, and sessions revoked from
+  // another device (reported by whichever tab's refresh was rejected).
+  useEffect(() => {
+    return onSessionEvent((event) => {
+      if (event.type === "logout" || event.type === "revoked") {
+        setUser(null);
+        queryClient.clear();
+        // Signing back in returns to the page the user was on.
+        navigate("/login", { state: { from: currentPath() } });
+      }
+      if (event.type === "revoked") {
+        toast.info("You've been signed out", "This session was ended from another device.");
+      }
+    });
+  }, [navigate, toast, queryClient]);
+
+  // Refresh the access token shortly before it expires while signed in.
+  useEffect(() => {
+    if (!user) return;
+    return startProactiveRefresh();
+  }, [user]);
+
+  const completeLogin = ({ accessToken, refreshToken, user }: LoginResponse) => {
+    recordActivity();
+    startSession({ accessToken, refreshToken });
+    setPendingLogin(null);
     setUser(user);
+    return user;
+  };
+
+  // Stores the tokens, or moves on to the second factor.
+  const continueLogin = (result: LoginResponse | MfaChallenge, email: string) => {
+    if ("mfaRequired" in result) {
+      setPendingLogin({ step: "second-factor", email: result.email ?? email, mfaToken: result.mfaToken });
+      return null;
+    }
+    return completeLogin(result);
+  };
+
+  const login = async (email: string, password: string) => continueLogin(await signIn(email, password), email);
+
+  const loginWithOAuth = async (provider: OAuthProvider, code: string) => {
+    const result = await exchangeOAuthCode(provider, code, oauthRedirectUri());
+    if ("linkRequired" in result) {
+      setPendingLogin({ step: "link-account", email: result.email, provider, linkToken: result.linkToken });
+      return null;
+    }
+    return continueLogin(result, "");
+  };
+
+  // Pending steps only live a few minutes; after that signing in starts over.
+  const withPendingStep = async <T,>(expiredCode: string, action: () => Promise<T>) => {
+    try {
+      return await action();
+    } catch (error) {
+      if (isApiError(error) && error.code === expiredCode) setPendingLogin(null);
+      throw error;
+    }
+  };
+
+  const linkAccount = async (password: string) => {
+    if (pendingLogin?.step !== "link-account") throw new Error("No sign-in is waiting to link an account");
+    const { linkToken, email } = pendingLogin;
+    return withPendingStep("LINK_TOKEN_EXPIRED", async () => continueLogin(await linkOAuthAccount(linkToken, password), email));
+  };
+
+  const verifySecondFactor = async (code: string, method: "totp" | "recovery" = "totp") => {
+    if (pendingLogin?.step !== "second-factor") throw new Error("No sign-in is waiting for a second factor");
+    const { mfaToken } = pendingLogin;
+    return withPendingStep("MFA_TOKEN_EXPIRED", async () => completeLogin(await verifyLoginMfa(mfaToken, code, method)));
   };
 
+  const cancelLogin = () => setPendingLogin(null);
+
   const register = async (email: string, password: string, name: string) => {
-    await api.post("/auth/signup/request", { email, password, name });
+    await requestSignup(email, password, name);
+  };
+
+  const forgotPassword = async (email: string) => {
+    await requestPasswordReset(email);
+  };
+
+  // A reset signs out every existing session server-side, so drop ours too.
+  const completePasswordReset = async (token: string, password: string) => {
+    await resetPassword(token, password);
+    if (getAccessToken()) {
+      endSession();
+      setUser(null);
+    }
+  };
+
+  const updateName = async (name: string) => {
+    setUser(await updateProfile({ name }));
+  };
+
+  const setPassword = async (newPassword: string) => {
+    await setInitialPassword(newPassword);
+    setUser((current) => current && { ...current, hasPassword: true });
   };
 
-  const logout = () => {
-    localStorage.removeItem("token");
-    localStorage.removeItem("refreshToken");
+  const logout = useCallback(() => {
+    endSession();
     setUser(null);
+    // Nothing from this account should linger for whoever uses the browser next.
+    queryClient.clear();
     navigate("/login");
+  }, [navigate, queryClient]);
+
+  const deleteAccountAndSignOut = async (password: string) => {
+    await deleteAccount(password);
+    logout();
+  };
+
+  const stayActive = () => {
+    recordActivity();
+    setIdleSecondsLeft(null);
   };
 
+  // Sign out after a stretch of inactivity across all tabs, with a warning first.
+  const isSignedIn = !!user;
+  useEffect(() => {
+    if (!isSignedIn || IDLE_TIMEOUT_MS <= 0) return;
+    const stop = startIdleTimer({
+      timeoutMs: IDLE_TIMEOUT_MS,
+      warningMs: IDLE_WARNING_MS,
+      onWarningChange: setIdleSecondsLeft,
+      onTimeout: () => {
+        setIdleSecondsLeft(null);
+        logout();
+        toast.info("Signed out due to inactivity");
+      },
+    });
+    return () => {
+      stop();
+      setIdleSecondsLeft(null);
+    };
+  }, [isSignedIn, logout, toast]);
+
   return (
-    <AuthContext.Provider value={{ user, isAuthenticated: !!user, isLoading, login, register, logout }}>
+    <AuthContext.Provider value={{
+        user,
+        isAuthenticated: !!user,
+        isLoading,
+        loginStep: toLoginStep(pendingLogin),
+        login,
+        loginWithOAuth,
+        linkAccount,
+        verifySecondFactor,
+        cancelLogin,
+        register,
+        forgotPassword,
+        resetPassword: completePasswordReset,
+        updateName,
+        changePassword,
+        setPassword,
+        deleteAccount: deleteAccountAndSignOut,
+        logout,
+        idleSecondsLeft,
+        stayActive,
+      }}>
       {children}
     </AuthContext.Provider>
   );
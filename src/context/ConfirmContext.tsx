@@ -0,0 +1,91 @@
+import React, { useCallback, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { ConfirmContext, type ConfirmFn, type ConfirmOptions } from "@/hooks/useConfirm";
+
+export const ConfirmProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [options, setOptions] = useState<ConfirmOptions | null>(null);
+  const [typed, setTyped] = useState("");
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const settle = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setOptions(null);
+  };
+
+  const confirm = useCallback<ConfirmFn>((next) => {
+    // A newer prompt replaces one that is still open; the old one counts as cancelled.
+    resolveRef.current?.(false);
+    setTyped("");
+    setOptions(next);
+    return new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const phraseMatches = !options?.confirmPhrase || typed === options.confirmPhrase;
+
+  return (
+    <ConfirmContext.Provider value={confirm}>
+      {children}
+      <Dialog open={options !== null} onOpenChange={(open) => !open && settle(false)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{options?.title}</DialogTitle>
+            {options?.description && <DialogDescription>{options.description}</DialogDescription>}
+          </DialogHeader>
+
+          {options?.confirmPhrase && (
+            <form
+              id="confirm-phrase"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (phraseMatches) settle(true);
+              }}
+              className="space-y-2"
+            >
+              <label htmlFor="confirm-phrase-input" className="text-sm text-zinc-600">
+                Type <span className="font-mono font-semibold text-zinc-900">{options.confirmPhrase}</span> to confirm.
+              </label>
+              <input
+                id="confirm-phrase-input"
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                autoComplete="off"
+                autoFocus
+                className="w-full px-3 py-2 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm font-mono"
+              />
+            </form>
+          )}
+
+          <DialogFooter>
+            <button
+              onClick={() => settle(false)}
+              className="px-4 py-2 text-sm font-medium text-zinc-600 hover:bg-zinc-100 rounded-md transition-colors"
+            >
+              {options?.cancelLabel ?? "Cancel"}
+            </button>
+            <button
+              onClick={() => settle(true)}
+              disabled={!phraseMatches}
+              className={cn(
+                "px-4 py-2 text-sm font-medium text-white rounded-md transition-colors disabled:opacity-50",
+                options?.destructive ? "bg-red-600 hover:bg-red-700" : "bg-black hover:bg-zinc-800"
+              )}
+            >
+              {options?.confirmLabel ?? "Confirm"}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ConfirmContext.Provider>
+  );
+};
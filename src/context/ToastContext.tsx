@@ -0,0 +1,78 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { CheckCircle2, Info, X, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ToastContext, type ToastContextType } from "@/hooks/useToast";
+
+type ToastVariant = "success" | "error" | "info";
+
+interface Toast {
+  id: number;
+  variant: ToastVariant;
+  title: string;
+  description?: string;
+}
+
+const TOAST_DURATION_MS = 4000;
+const MAX_TOASTS = 4;
+
+const variantStyles: Record<ToastVariant, { icon: React.ElementType; className: string }> = {
+  success: { icon: CheckCircle2, className: "text-green-600" },
+  error: { icon: XCircle, className: "text-red-600" },
+  info: { icon: Info, className: "text-indigo-600" },
+};
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const show = useCallback((variant: ToastVariant, title: string, description?: string) => {
+    const id = nextId.current++;
+    setToasts((prev) => [...prev, { id, variant, title, description }].slice(-MAX_TOASTS));
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+  }, [dismiss]);
+
+  const value = useMemo<ToastContextType>(() => ({
+    success: (title, description) => show("success", title, description),
+    error: (title, description) => show("error", title, description),
+    info: (title, description) => show("info", title, description),
+    dismiss,
+  }), [show, dismiss]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <div
+        aria-live="polite"
+        className="fixed z-[100] bottom-20 md:bottom-4 inset-x-4 md:inset-x-auto md:right-4 flex flex-col gap-2 md:w-80 pointer-events-none"
+      >
+        {toasts.map((toast) => {
+          const { icon: Icon, className } = variantStyles[toast.variant];
+          return (
+            <div
+              key={toast.id}
+              role={toast.variant === "error" ? "alert" : "status"}
+              className="pointer-events-auto flex items-start gap-3 bg-white border border-zinc-200 rounded-lg shadow-lg p-3 animate-in fade-in-0 slide-in-from-bottom-2"
+            >
+              <Icon size={18} className={cn("shrink-0 mt-0.5", className)} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-zinc-900">{toast.title}</p>
+                {toast.description && <p className="text-xs text-zinc-500 mt-0.5">{toast.description}</p>}
+              </div>
+              <button
+                onClick={() => dismiss(toast.id)}
+                className="shrink-0 text-zinc-400 hover:text-zinc-600 transition-colors"
+                aria-label="Dismiss"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </ToastContext.Provider>
+  );
+};
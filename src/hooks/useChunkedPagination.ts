@@ -0,0 +1,123 @@
+import { useCallback, useState } from "react";
+import { useQuery, type QueryKey } from "@tanstack/react-query";
+import type { PageParams, RequestOptions } from "@/lib/client";
+import type { Paginated } from "@/lib/schemas";
+
+// Where a list is in the backend's chunked pagination: `offset` pages within
+// the current chunk, `chunkStack` holds the chunks paged through to get here
+// ("" for the first one, which has no id) so Prev can step back across them.
+export interface PageCursor {
+  offset: number;
+  chunkId?: string;
+  chunkStack: string[];
+  // Unset means the list's default page size.
+  limit?: number;
+}
+
+export const FIRST_PAGE: Pick<PageCursor, "offset" | "chunkId" | "chunkStack"> = {
+  offset: 0,
+  chunkId: undefined,
+  chunkStack: [],
+};
+
+// What PaginationFooter needs from a paginated list, chunked or not.
+export interface PageControls {
+  limit: number;
+  canGoNext: boolean;
+  canGoPrev: boolean;
+  next: () => void;
+  prev: () => void;
+  setPageSize: (size: number) => void;
+  range: { start: number; end: number; total: number; totalIsExact: boolean };
+}
+
+interface ChunkedPaginationOptions<T> {
+  // Identifies the list; the page is appended to it.
+  queryKey: QueryKey;
+  fetchPage: (page: PageParams, options: RequestOptions) => Promise<Paginated<T>>;
+  pageSize: number;
+  // Where the cursor lives, e.g. useListParams() to keep it in the URL.
+  // Defaults to component state.
+  store?: readonly [PageCursor, (changes: Partial<PageCursor>) => void];
+  // Called after Next, Prev or a page-size change, e.g. to clear a selection.
+  onPageChange?: () => void;
+  enabled?: boolean;
+}
+
+// Fetches one page of a chunked list and works out how to move from it.
+export const useChunkedPagination = <T>({
+  queryKey,
+  fetchPage,
+  pageSize,
+  store,
+  onPageChange,
+  enabled = true,
+}: ChunkedPaginationOptions<T>) => {
+  const [localCursor, setLocalCursor] = useState<PageCursor>(FIRST_PAGE);
+  const updateLocal = useCallback((changes: Partial<PageCursor>) => setLocalCursor((c) => ({ ...c, ...changes })), []);
+  const [cursor, update] = store ?? [localCursor, updateLocal];
+
+  const { offset, chunkId, chunkStack } = cursor;
+  const limit = cursor.limit ?? pageSize;
+
+  const query = useQuery({
+    queryKey: [...queryKey, { offset, chunkId, limit }],
+    // The signal cancels requests superseded by a newer search or page.
+    queryFn: ({ signal }) => fetchPage({ limit, offset, chunkId }, { signal }),
+    enabled,
+  });
+
+  const metadata = query.data?.metadata;
+  const itemCount = query.data?.data.length ?? 0;
+
+  const move = (changes: Partial<PageCursor>) => {
+    update(changes);
+    onPageChange?.();
+  };
+
+  const canGoNext = !!metadata && (offset + limit < metadata.chunkTotalItems || !!metadata.nextChunkId);
+  const canGoPrev = offset > 0 || chunkStack.length > 0;
+
+  const next = () => {
+    if (!metadata) return;
+    if (offset + limit < metadata.chunkTotalItems) {
+      move({ offset: offset + limit });
+    } else if (metadata.nextChunkId) {
+      move({ chunkStack: [...chunkStack, chunkId ?? ""], chunkId: metadata.nextChunkId, offset: 0 });
+    }
+  };
+
+  const prev = () => {
+    if (offset > 0) {
+      move({ offset: Math.max(0, offset - limit) });
+    } else if (chunkStack.length > 0) {
+      const prevChunk = chunkStack[chunkStack.length - 1];
+      // Earlier chunks are full, so step back onto the last page of the previous one.
+      const lastPage = metadata ? Math.floor((metadata.chunkSize - 1) / limit) * limit : 0;
+      move({ chunkStack: chunkStack.slice(0, -1), chunkId: prevChunk || undefined, offset: lastPage });
+    }
+  };
+
+  // Keeps the first row of the current page in view.
+  const setPageSize = (size: number) => {
+    move({ limit: size === pageSize ? undefined : size, offset: Math.floor(offset / size) * size });
+  };
+
+  const reset = useCallback(() => update(FIRST_PAGE), [update]);
+
+  // Every chunk before this one was full, which gives the rows before this page.
+  const before = chunkStack.length * (metadata?.chunkSize ?? 0) + offset;
+  const range: PageControls["range"] = {
+    start: itemCount > 0 ? before + 1 : 0,
+    end: before + itemCount,
+    // Rows seen so far; there are more while another chunk follows.
+    total: metadata ? chunkStack.length * metadata.chunkSize + metadata.chunkTotalItems : 0,
+    totalIsExact: !metadata?.nextChunkId,
+  };
+
+  return {
+    query,
+    items: query.data?.data ?? [],
+    pagination: { offset, chunkId, limit, pageSize, canGoNext, canGoPrev, next, prev, reset, setPageSize, range },
+  };
+};
@@ -0,0 +1,26 @@
+import { createContext, useContext } from "react";
+
+export interface ConfirmOptions {
+  title: string;
+  description?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  destructive?: boolean;
+  // When set, the confirm button stays disabled until this exact text is typed.
+  confirmPhrase?: string;
+}
+
+export type ConfirmFn = (options: ConfirmOptions) => Promise<boolean>;
+
+// Provided by ConfirmProvider (src/context/ConfirmContext.tsx).
+export const ConfirmContext = createContext<ConfirmFn | undefined>(undefined);
+
+// Promise-based replacement for window.confirm():
+//   if (!(await confirm({ title: "Delete this tag?", destructive: true }))) return;
+export const useConfirm = () => {
+  const context = useContext(ConfirmContext);
+  if (context === undefined) {
+    throw new Error("useConfirm must be used within a ConfirmProvider");
+  }
+  return context;
+};
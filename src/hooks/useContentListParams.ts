@@ -0,0 +1,27 @@
+import { useListParams, type ListParamsExtension } from "@/hooks/useListParams";
+import { DEFAULT_SEARCH_MODE, isSearchMode, type SearchMode } from "@/lib/searchQuery";
+
+// The Contents page's search settings, kept in the URL with its list params.
+export interface ContentSearchParams {
+  mode: SearchMode;
+  // Hide search hits scoring below this (0-1).
+  minScore: number;
+}
+
+const CONTENT_SEARCH_PARAMS: ListParamsExtension<ContentSearchParams> = {
+  keys: ["mode", "minScore"],
+  parse: (params) => {
+    const mode = params.get("mode");
+    const minScore = Number(params.get("minScore"));
+    return {
+      mode: isSearchMode(mode) ? mode : DEFAULT_SEARCH_MODE,
+      minScore: minScore > 0 && minScore < 1 ? minScore : 0,
+    };
+  },
+  write: (target, values) => {
+    if (values.mode !== DEFAULT_SEARCH_MODE) target.set("mode", values.mode);
+    if (values.minScore > 0) target.set("minScore", String(values.minScore));
+  },
+};
+
+export const useContentListParams = () => useListParams(CONTENT_SEARCH_PARAMS);
@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useState } from "react";
+
+// A countdown for buttons that shouldn't be pressed again right away, such as
+// "resend email". `start` (re)arms it; secondsLeft is 0 once it has run out.
+export const useCooldown = (initialSeconds: number = 0) => {
+  const [secondsLeft, setSecondsLeft] = useState(initialSeconds);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timer = setTimeout(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  const start = useCallback((seconds: number) => setSecondsLeft(Math.ceil(seconds)), []);
+
+  return { secondsLeft, start };
+};
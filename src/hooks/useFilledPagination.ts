@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, type QueryKey } from "@tanstack/react-query";
+import type { PageParams, RequestOptions } from "@/lib/client";
+import type { PageControls, PageCursor } from "@/hooks/useChunkedPagination";
+
+// A page of a backend list and where the next one starts, if anywhere.
+export interface SourcePage<T> {
+  items: T[];
+  next?: PageParams;
+}
+
+// Stop filling a view once this many fetched pages in a row kept nothing;
+// "Load more" carries on by hand from there.
+const MAX_EMPTY_PAGES = 5;
+
+interface FilledPaginationOptions<T> {
+  // Identifies the list; the page size is appended to it.
+  queryKey: QueryKey;
+  fetchPage: (page: PageParams, options: RequestOptions) => Promise<SourcePage<T>>;
+  // The rows of one fetched page to show, in order. It sees each page on its
+  // own, so rows already on screen stay put when the next page arrives.
+  keep: (items: T[]) => T[];
+  pageSize: number;
+  // Where the cursor lives; `offset` counts kept rows.
+  store: readonly [PageCursor, (changes: Partial<PageCursor>) => void];
+  // Called after Next, Prev or a page-size change, e.g. to clear a selection.
+  onPageChange?: () => void;
+  enabled?: boolean;
+}
+
+// Pages through a list the client filters or re-ranks after fetching it.
+// Dropping rows leaves the backend's pages short, so this keeps fetching until
+// the view is full and counts only the rows kept. Every view reads the list
+// from its start (react-query keeps the pages already fetched); `loadMore`
+// grows the view by a page.
+export const useFilledPagination = <T extends { id: string }>({
+  queryKey,
+  fetchPage,
+  keep,
+  pageSize,
+  store,
+  onPageChange,
+  enabled = true,
+}: FilledPaginationOptions<T>) => {
+  const [cursor, update] = store;
+  const { offset } = cursor;
+  const limit = cursor.limit ?? pageSize;
+  // Pages "Load more" added under this view; none again once the view moves.
+  const [more, setMore] = useState({ offset, limit, pages: 0 });
+  const extraPages = more.offset === offset && more.limit === limit ? more.pages : 0;
+  const shown = limit * (1 + extraPages);
+
+  const query = useInfiniteQuery({
+    queryKey: [...queryKey, { limit }],
+    // The signal cancels requests superseded by a newer search or filter.
+    queryFn: ({ pageParam, signal }) => fetchPage(pageParam, { signal }),
+    initialPageParam: { limit, offset: 0 } as PageParams,
+    getNextPageParam: (lastPage) => lastPage.next,
+    enabled,
+  });
+
+  // Rows can shift between requests (e.g. content added in the meantime), so
+  // the same one may come back on two pages; keep it once.
+  const seen = new Set<string>();
+  const fetched = (query.data?.pages ?? []).map((page) =>
+    page.items.filter((item) => {
+      if (seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
+    })
+  );
+  const keptPages = fetched.map(keep);
+  const kept = keptPages.flat();
+  const items = kept.slice(offset, offset + shown);
+
+  let emptyRun = 0;
+  while (emptyRun < keptPages.length && keptPages[keptPages.length - 1 - emptyRun].length === 0) emptyRun++;
+  const hasMore = query.hasNextPage;
+  const isFilling = enabled && hasMore && items.length < shown && emptyRun < MAX_EMPTY_PAGES && !query.isError;
+
+  const { isFetching, fetchNextPage } = query;
+  useEffect(() => {
+    if (isFilling && !isFetching) fetchNextPage();
+  }, [isFilling, isFetching, fetchNextPage]);
+
+  const move = (changes: Partial<PageCursor>) => {
+    update(changes);
+    onPageChange?.();
+  };
+
+  const isFull = items.length === shown;
+  const pagination: PageControls = {
+    limit,
+    canGoNext: isFull && (kept.length > offset + shown || hasMore),
+    canGoPrev: offset > 0,
+    next: () => {
+      if (isFull) move({ offset: offset + shown });
+    },
+    prev: () => move({ offset: Math.max(0, offset - limit) }),
+    setPageSize: (size) => move({ limit: size === pageSize ? undefined : size, offset: Math.floor(offset / size) * size }),
+    range: { start: items.length > 0 ? offset + 1 : 0, end: offset + items.length, total: kept.length, totalIsExact: !hasMore },
+  };
+
+  // A full view grows by a page; a view that gave up filling fetches one more page.
+  const loadMore = () => {
+    if (isFull) setMore({ offset, limit, pages: extraPages + 1 });
+    else fetchNextPage();
+  };
+
+  return {
+    query,
+    items,
+    // Every row fetched so far, kept or not.
+    loaded: fetched.flat(),
+    pagination,
+    hasMore,
+    isFilling,
+    loadMore,
+    isLoadingMore: query.isFetchingNextPage,
+  };
+};
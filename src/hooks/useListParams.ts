@@ -0,0 +1,76 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { PageCursor } from "@/hooks/useChunkedPagination";
+
+// The paging, search and filter state of a list page, kept in the URL so a
+// refresh, a shared link or Back/Forward lands on the same page of results.
+export interface ListParams extends PageCursor {
+  q: string;
+  tagIds: string[];
+}
+
+// Extra URL params a single page keeps alongside the shared ones, e.g. the
+// Contents search mode. Define it once at module level so it stays stable.
+export interface ListParamsExtension<T extends object> {
+  keys: string[];
+  parse: (params: URLSearchParams) => T;
+  write: (target: URLSearchParams, values: T) => void;
+}
+
+const MAX_LIMIT = 100;
+
+// Leaves a page's own params (anything else in the query string) alone.
+const KEYS = ["q", "offset", "chunk", "stack", "limit", "tag"];
+
+const parseListParams = (params: URLSearchParams): ListParams => {
+  const offset = Number(params.get("offset"));
+  const limit = Number(params.get("limit"));
+  return {
+    q: params.get("q") ?? "",
+    offset: Number.isInteger(offset) && offset > 0 ? offset : 0,
+    chunkId: params.get("chunk") || undefined,
+    chunkStack: params.getAll("stack"),
+    limit: Number.isInteger(limit) && limit > 0 && limit <= MAX_LIMIT ? limit : undefined,
+    tagIds: params.getAll("tag"),
+  };
+};
+
+const writeListParams = (target: URLSearchParams, values: ListParams) => {
+  KEYS.forEach((key) => target.delete(key));
+  if (values.q) target.set("q", values.q);
+  if (values.offset > 0) target.set("offset", String(values.offset));
+  if (values.chunkId) target.set("chunk", values.chunkId);
+  values.chunkStack.forEach((id) => target.append("stack", id));
+  if (values.limit) target.set("limit", String(values.limit));
+  values.tagIds.forEach((id) => target.append("tag", id));
+  return target;
+};
+
+const NO_EXTENSION: ListParamsExtension<object> = { keys: [], parse: () => ({}), write: () => {} };
+
+// Paging pushes a history entry so Back returns to the previous page; pass
+// `replace` for changes that shouldn't, like each debounced keystroke.
+export const useListParams = <T extends object = object>(extension?: ListParamsExtension<T>) => {
+  const ext = (extension ?? NO_EXTENSION) as ListParamsExtension<T>;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const params = useMemo(
+    (): ListParams & T => ({ ...parseListParams(searchParams), ...ext.parse(searchParams) }),
+    [searchParams, ext]
+  );
+
+  const setParams = useCallback(
+    (changes: Partial<ListParams & T>, options?: { replace?: boolean }) => {
+      setSearchParams((prev) => {
+        const values = { ...parseListParams(prev), ...ext.parse(prev), ...changes };
+        const next = writeListParams(new URLSearchParams(prev), values);
+        ext.keys.forEach((key) => next.delete(key));
+        ext.write(next, values);
+        return next;
+      }, options);
+    },
+    [setSearchParams, ext]
+  );
+
+  return [params, setParams] as const;
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { isRateLimitError } from "@/lib/errors";
+import { getRateLimitSeconds, subscribeRateLimits, waitForRateLimit } from "@/lib/rateLimit";
+
+const MAX_AUTO_RETRIES = 3;
+
+// Seconds until the given API area accepts requests again (0 when not limited).
+export const useRateLimit = (scope: string) =>
+  useSyncExternalStore(subscribeRateLimits, () => getRateLimitSeconds(scope));
+
+// Wraps an action that may be rate limited: on a 429 it waits out the window
+// and runs the action again, so a button can show "Retrying in Ns" instead of
+// an error the user has to act on.
+export const useRateLimitedAction = <T>(scope: string, action: () => Promise<T>) => {
+  const secondsLeft = useRateLimit(scope);
+  const [isWaiting, setIsWaiting] = useState(false);
+  const actionRef = useRef(action);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    actionRef.current = action;
+  });
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const run = useCallback(async (): Promise<T> => {
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await actionRef.current();
+        } catch (error) {
+          if (!isRateLimitError(error) || attempt >= MAX_AUTO_RETRIES || !mountedRef.current) throw error;
+          setIsWaiting(true);
+          await waitForRateLimit(scope);
+          if (!mountedRef.current) throw error;
+        }
+      }
+    } finally {
+      if (mountedRef.current) setIsWaiting(false);
+    }
+  }, [scope]);
+
+  return { run, isWaiting, secondsLeft };
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+
+type ToastFn = (title: string, description?: string) => void;
+
+export interface ToastContextType {
+  success: ToastFn;
+  error: ToastFn;
+  info: ToastFn;
+  dismiss: (id: number) => void;
+}
+
+// Provided by ToastProvider (src/context/ToastContext.tsx).
+export const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error("useToast must be used within a ToastProvider");
+  }
+  return context;
+};
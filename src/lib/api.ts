@@ -1,16 +1,25 @@
 import axios from "axios";
+import { API_BASE_URL, SESSION_MODE } from "@/lib/config";
+import { isSessionRevokedError, toApiError } from "@/lib/errors";
+import { currentPath, loginUrl } from "@/lib/navigation";
+import { markRateLimited, parseRetryAfter, rateLimitScope } from "@/lib/rateLimit";
+import { requestReauthentication } from "@/lib/reauth";
+import { endSession, ensureFreshToken, getAccessToken, refreshSession } from "@/lib/session";
 
 const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL || "/api",
+  baseURL: API_BASE_URL,
+  // Cookie sessions need the browser to accept and send the refresh cookie.
+  withCredentials: SESSION_MODE === "cookie",
   headers: {
     "Content-Type": "application/json",
   },
 });
 
-// Add a request interceptor to include the auth token
+// Add a request interceptor to include the auth token, refreshing it first
+// if it is about to expire so the request doesn't bounce off a 401.
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem("token");
+  async (config) => {
+    const token = await ensureFreshToken().catch(() => getAccessToken());
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -20,93 +29,105 @@ api.interceptors.request.use(
 );
 
 // Add a response interceptor to handle 401 errors
-let isRefreshing = false;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let failedQueue: { resolve: (token: string) => void; reject: (error: any) => void }[] = [];
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const processQueue = (error: any, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token!);
-    }
-  });
-
-  failedQueue = [];
-};
-
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
     const originalRequest = error.config;
 
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      // Don't retry if it's the login or refresh endpoint itself
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
+      // Don't retry if it's a sign-in or the refresh endpoint itself
       if (
         originalRequest.url?.includes("/auth/login") ||
+        originalRequest.url?.includes("/auth/oauth/") ||
         originalRequest.url?.includes("/auth/refresh")
       ) {
         return Promise.reject(error);
       }
 
-      if (isRefreshing) {
-        return new Promise(function (resolve, reject) {
-          failedQueue.push({ resolve, reject });
-        })
-          .then((token) => {
-            originalRequest.headers.Authorization = `Bearer ${token}`;
-            return api(originalRequest);
-          })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
-      }
-
       originalRequest._retry = true;
-      isRefreshing = true;
-
-      try {
-        const refreshToken = localStorage.getItem("refreshToken");
-        if (!refreshToken) throw new Error("No refresh token");
-
-        // Use the base axios instance to avoid recursive 401s, 
-        // but ensure we hit the correct refresh endpoint.
-        const refreshUrl = `${api.defaults.baseURL}/auth/refresh`;
-        const { data } = await axios.post(refreshUrl, { refreshToken });
 
-        localStorage.setItem("token", data.accessToken);
-        localStorage.setItem("refreshToken", data.refreshToken);
+      // Concurrent 401s, in this tab or others, share a single refresh.
+      const rejectedToken = String(originalRequest.headers.Authorization || "").replace(/^Bearer /, "") || null;
 
-        processQueue(null, data.accessToken);
-
-        originalRequest.headers.Authorization = `Bearer ${data.accessToken}`;
+      try {
+        const token = await refreshSession(rejectedToken);
+        originalRequest.headers.Authorization = `Bearer ${token}`;
         return api(originalRequest);
       } catch (refreshError) {
-        processQueue(refreshError, null);
-        localStorage.removeItem("token");
-        localStorage.removeItem("refreshToken");
-        window.location.href = "/login";
+        // Signed out from another device: session.ts has already told
+        // AuthContext, which signs out cleanly instead of offering to sign in here.
+        if (isSessionRevokedError(refreshError)) {
+          return Promise.reject(refreshError);
+        }
+
+        // Let the user sign in again without leaving the page, then retry.
+        const reauth = requestReauthentication();
+        if (reauth) {
+          try {
+            const token = await reauth;
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return api(originalRequest);
+          } catch {
+            // The user chose to sign out instead; fall through to the redirect.
+          }
+        }
+
+        endSession();
+        window.location.href = loginUrl(currentPath());
         return Promise.reject(refreshError);
-      } finally {
-        isRefreshing = false;
       }
     }
     return Promise.reject(error);
   }
 );
 
-export const bulkDeleteContents = async (ids: string[] | "*") => {
-  return api.delete("/content/bulk", { data: { ids } });
-};
+// Retry idempotent requests that hit a rate limit or a transient server error.
+// Retry-After wins over the backoff schedule; waits longer than
+// MAX_RETRY_WAIT_MS are left to the caller (the UI shows a countdown).
+const RETRYABLE_METHODS = ["get", "head", "options", "put", "delete"];
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_RETRY_WAIT_MS = 10_000;
+
+const backoffDelay = (attempt: number) => BASE_DELAY_MS * 2 ** attempt + Math.random() * BASE_DELAY_MS;
 
-export const bulkDeleteTags = async (ids: string[] | "*") => {
-  return api.delete("/tag/bulk", { data: { ids } });
-};
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-export const searchContents = async (query: string, limit: number = 20, offset: number = 0) => {
-  return api.get(`/content/search?q=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}`);
-};
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error.config;
+    const status: number | undefined = error.response?.status;
+    if (!config || !status || (status !== 429 && status < 500)) {
+      return Promise.reject(error);
+    }
+
+    const retryAfter = parseRetryAfter(error.response.headers?.["retry-after"]);
+    if (status === 429) {
+      markRateLimited(rateLimitScope(config.url), retryAfter);
+    }
+
+    const attempt: number = config._retryCount ?? 0;
+    const delay = retryAfter ?? backoffDelay(attempt);
+    const method = (config.method ?? "get").toLowerCase();
+    if (!RETRYABLE_METHODS.includes(method) || attempt >= MAX_RETRIES || delay > MAX_RETRY_WAIT_MS) {
+      return Promise.reject(error);
+    }
+
+    config._retryCount = attempt + 1;
+    await sleep(delay);
+    if (config.signal?.aborted) {
+      return Promise.reject(error);
+    }
+    return api(config);
+  }
+);
+
+// Registered last so it sees the final outcome: every failure leaves the api
+// layer as an ApiError (see src/lib/errors.ts).
+api.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(toApiError(error))
+);
 
-export default api;
\ No newline at end of file
+export default api;
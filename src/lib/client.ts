@@ -0,0 +1,354 @@
+import { z } from "zod";
+import api from "@/lib/api";
+import { SESSION_MODE } from "@/lib/config";
+import { ApiContractError } from "@/lib/errors";
+import { toSuggestionItems, toTagItem, type ContentType, type OAuthProvider, type Role } from "@/lib/domain";
+import {
+  adminUserSchema,
+  contentSchema,
+  contentTagSchema,
+  loginResponseSchema,
+  mfaChallengeSchema,
+  mfaSetupSchema,
+  mfaStatusSchema,
+  oauthLinkRequiredSchema,
+  paginatedSchema,
+  searchHitSchema,
+  sessionSchema,
+  statsSchema,
+  suggestionsResponseSchema,
+  tagSchema,
+  userSchema,
+  youtubeInfoSchema,
+  type Paginated,
+} from "@/lib/schemas";
+
+const parse = <T extends z.ZodType>(schema: T, data: unknown, endpoint: string): z.output<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiContractError(endpoint, result.error);
+  }
+  return result.data;
+};
+
+export interface PageParams {
+  limit: number;
+  offset: number;
+  chunkId?: string;
+}
+
+// Lets callers (react-query passes one to every queryFn) cancel a request
+// whose result is no longer wanted, e.g. a superseded search.
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+// Where the page after `result` starts in a chunked list; undefined at its end.
+export const nextChunkedPage = (
+  { limit, chunkId }: PageParams,
+  { data, metadata }: Paginated<unknown>
+): PageParams | undefined => {
+  const offset = metadata.offset + data.length;
+  if (data.length > 0 && offset < metadata.chunkTotalItems) return { limit, offset, chunkId };
+  if (metadata.nextChunkId) return { limit, offset: 0, chunkId: metadata.nextChunkId };
+  return undefined;
+};
+
+// --- Contents ---
+
+const contentPageSchema = paginatedSchema(contentSchema);
+
+export const listContents = async ({ limit, offset, chunkId }: PageParams, { signal }: RequestOptions = {}) => {
+  const res = await api.get("/content", { params: { limit, offset, chunkId }, signal });
+  return parse(contentPageSchema, res.data, "GET /content");
+};
+
+// Contents tagged with any of `tagIds`, which must not be empty.
+export const listContentsByTags = async (
+  tagIds: string[],
+  { limit, offset, chunkId }: PageParams,
+  { signal }: RequestOptions = {}
+) => {
+  const res = await api.get("/content/by-tags", {
+    params: { limit, offset, chunkId, tagIds: tagIds.join(",") },
+    signal,
+  });
+  return parse(contentPageSchema, res.data, "GET /content/by-tags");
+};
+
+export interface SearchContentsParams {
+  q: string;
+  limit: number;
+  offset: number;
+}
+
+export const searchContents = async (
+  { q, limit, offset }: SearchContentsParams,
+  { signal }: RequestOptions = {}
+) => {
+  const res = await api.get("/content/search", { params: { q, limit, offset }, signal });
+  return parse(z.array(searchHitSchema), res.data, "GET /content/search");
+};
+
+export const getContent = async (id: string) => {
+  const res = await api.get(`/content/${id}`);
+  return parse(contentSchema, res.data, "GET /content/:id");
+};
+
+export interface CreateContentInput {
+  title: string;
+  content: string;
+  contentType: Exclude<ContentType, "YOUTUBE_VIDEO">;
+  tagIds: string[];
+}
+
+export const createContent = async (input: CreateContentInput) => {
+  await api.post("/content", input);
+};
+
+export interface CreateYoutubeContentInput {
+  url: string;
+  title: string;
+  description: string;
+  transcript: string;
+  tagIds: string[];
+}
+
+export const createYoutubeContent = async (input: CreateYoutubeContentInput) => {
+  await api.post("/content/youtube", input);
+};
+
+export interface UpdateContentInput {
+  title: string;
+  content: string;
+  contentType: ContentType;
+}
+
+export const updateContent = async (id: string, input: UpdateContentInput) => {
+  await api.patch(`/content/${id}`, input);
+};
+
+export const deleteContent = async (id: string) => {
+  await api.delete(`/content/${id}`);
+};
+
+export const bulkDeleteContents = async (ids: string[] | "*") => {
+  await api.delete("/content/bulk", { data: { ids } });
+};
+
+// --- Content tags ---
+
+export const getContentTags = async (contentId: string) => {
+  const res = await api.get(`/content/${contentId}/tags`);
+  return parse(z.object({ data: z.array(contentTagSchema) }), res.data, "GET /content/:id/tags").data.map(toTagItem);
+};
+
+export const addContentTags = async (contentId: string, tagIds: string[]) => {
+  await api.post(`/content/${contentId}/tags`, { tagIds });
+};
+
+export const removeContentTags = async (contentId: string, tagIds: string[]) => {
+  await api.delete(`/content/${contentId}/tags`, { data: { tagIds } });
+};
+
+export const addPotentialKeywords = async (contentId: string, keywords: string[]) => {
+  await api.post(`/content/${contentId}/potential`, { keywords });
+};
+
+// --- Suggestions ---
+
+export const getSuggestions = async (contentId: string) => {
+  const res = await api.get(`/suggestions/content/${contentId}`);
+  return toSuggestionItems(parse(suggestionsResponseSchema, res.data, "GET /suggestions/content/:id"));
+};
+
+export const regenerateSuggestions = async (contentId: string) => {
+  const res = await api.post(`/suggestions/content/${contentId}/regenerate`);
+  return toSuggestionItems(parse(suggestionsResponseSchema, res.data, "POST /suggestions/content/:id/regenerate"));
+};
+
+export const analyzeText = async (text: string) => {
+  const res = await api.post("/suggestions/analyze", { text });
+  return toSuggestionItems(parse(suggestionsResponseSchema, res.data, "POST /suggestions/analyze"));
+};
+
+// --- Tags ---
+
+export interface ListTagsParams extends PageParams {
+  q?: string;
+}
+
+export const listTags = async ({ limit, offset, chunkId, q }: ListTagsParams, { signal }: RequestOptions = {}) => {
+  const res = await api.get("/tag", { params: { limit, offset, chunkId, q: q || undefined }, signal });
+  return parse(paginatedSchema(tagSchema), res.data, "GET /tag");
+};
+
+export interface TagInput {
+  name: string;
+  semantic: string;
+}
+
+export const createTags = async (tags: TagInput[]) => {
+  const res = await api.post("/tag", { tags });
+  return parse(z.array(tagSchema), res.data, "POST /tag");
+};
+
+export const updateTag = async (id: string, input: TagInput) => {
+  await api.patch(`/tag/${id}`, input);
+};
+
+export const deleteTag = async (id: string) => {
+  await api.delete(`/tag/${id}`);
+};
+
+export const bulkDeleteTags = async (ids: string[] | "*") => {
+  await api.delete("/tag/bulk", { data: { ids } });
+};
+
+// --- Misc ---
+
+export const getStats = async () => {
+  const res = await api.get("/stats");
+  return parse(statsSchema, res.data, "GET /stats");
+};
+
+export const getYoutubeInfo = async (url: string) => {
+  const res = await api.post("/youtube/info", { url });
+  return parse(youtubeInfoSchema, res.data, "POST /youtube/info");
+};
+
+// --- Auth ---
+
+export const fetchCurrentUser = async () => {
+  const res = await api.get("/auth/me");
+  return parse(z.object({ user: userSchema }), res.data, "GET /auth/me").user;
+};
+
+export const updateProfile = async (changes: { name: string }) => {
+  const res = await api.patch("/auth/me", changes);
+  return parse(z.object({ user: userSchema }), res.data, "PATCH /auth/me").user;
+};
+
+export const changePassword = async (currentPassword: string, newPassword: string) => {
+  await api.post("/auth/password/change", { currentPassword, newPassword });
+};
+
+// Gives an account created through a provider a password of its own.
+export const setInitialPassword = async (newPassword: string) => {
+  await api.post("/auth/password/set", { newPassword });
+};
+
+// Permanently deletes the account and everything in it; the password is re-checked server-side.
+export const deleteAccount = async (password: string) => {
+  await api.delete("/auth/me", { data: { password } });
+};
+
+export const listSessions = async () => {
+  const res = await api.get("/auth/sessions");
+  return parse(z.object({ sessions: z.array(sessionSchema) }), res.data, "GET /auth/sessions").sessions;
+};
+
+export const revokeSession = async (id: string) => {
+  await api.delete(`/auth/sessions/${id}`);
+};
+
+// Signs out every device except the one making the request.
+export const revokeOtherSessions = async () => {
+  await api.delete("/auth/sessions/others");
+};
+
+// In cookie mode the server sets the refresh token as an httpOnly cookie instead of returning it.
+const sessionMode = () => (SESSION_MODE === "cookie" ? "cookie" : undefined);
+
+// Either signs in, or returns a challenge to finish with verifyLoginMfa.
+export const signIn = async (email: string, password: string) => {
+  const res = await api.post("/auth/login", { email, password, session: sessionMode() });
+  return parse(z.union([loginResponseSchema, mfaChallengeSchema]), res.data, "POST /auth/login");
+};
+
+export const verifyLoginMfa = async (mfaToken: string, code: string, method: "totp" | "recovery") => {
+  const res = await api.post("/auth/login/mfa", {
+    mfaToken,
+    [method === "totp" ? "code" : "recoveryCode"]: code,
+    session: sessionMode(),
+  });
+  return parse(loginResponseSchema, res.data, "POST /auth/login/mfa");
+};
+
+export const getMfaStatus = async () => {
+  const res = await api.get("/auth/mfa");
+  return parse(mfaStatusSchema, res.data, "GET /auth/mfa");
+};
+
+// Starts enrollment with a fresh secret; 2FA is only on once enableMfa confirms a code.
+export const startMfaSetup = async () => {
+  const res = await api.post("/auth/mfa/setup");
+  return parse(mfaSetupSchema, res.data, "POST /auth/mfa/setup");
+};
+
+// Returns the one-time recovery codes, which are never shown again.
+export const enableMfa = async (code: string) => {
+  const res = await api.post("/auth/mfa/enable", { code });
+  return parse(z.object({ recoveryCodes: z.array(z.string()) }), res.data, "POST /auth/mfa/enable").recoveryCodes;
+};
+
+export const disableMfa = async (password: string) => {
+  await api.post("/auth/mfa/disable", { password });
+};
+
+// The provider's consent page; it sends the user back to redirectUri with a code and the same state.
+export const getOAuthAuthorizeUrl = async (provider: OAuthProvider, state: string, redirectUri: string) => {
+  const res = await api.get(`/auth/oauth/${provider}/authorize`, { params: { state, redirectUri } });
+  return parse(z.object({ url: z.string() }), res.data, `GET /auth/oauth/${provider}/authorize`).url;
+};
+
+// Signs in with the provider's code, or asks for a second factor, or for the
+// password of an existing account with the same email before linking it.
+export const exchangeOAuthCode = async (provider: OAuthProvider, code: string, redirectUri: string) => {
+  const res = await api.post(`/auth/oauth/${provider}/callback`, { code, redirectUri, session: sessionMode() });
+  return parse(
+    z.union([loginResponseSchema, mfaChallengeSchema, oauthLinkRequiredSchema]),
+    res.data,
+    `POST /auth/oauth/${provider}/callback`
+  );
+};
+
+export const linkOAuthAccount = async (linkToken: string, password: string) => {
+  const res = await api.post("/auth/oauth/link", { linkToken, password, session: sessionMode() });
+  return parse(z.union([loginResponseSchema, mfaChallengeSchema]), res.data, "POST /auth/oauth/link");
+};
+
+export const requestSignup = async (email: string, password: string, name: string) => {
+  await api.post("/auth/signup/request", { email, password, name });
+};
+
+export const verifySignup = async (token: string) => {
+  await api.get("/auth/signup/verify", { params: { token } });
+};
+
+// Sends a fresh verification link. Fails with code ALREADY_VERIFIED once the account is active.
+export const resendVerification = async (email: string) => {
+  await api.post("/auth/signup/resend", { email });
+};
+
+// Always succeeds for a well-formed email, so it can't be used to probe which accounts exist.
+export const requestPasswordReset = async (email: string) => {
+  await api.post("/auth/password/forgot", { email });
+};
+
+export const resetPassword = async (token: string, password: string) => {
+  await api.post("/auth/password/reset", { token, password });
+};
+
+// --- Admin ---
+
+export const listUsers = async ({ signal }: RequestOptions = {}) => {
+  const res = await api.get("/admin/users", { signal });
+  return parse(z.object({ users: z.array(adminUserSchema) }), res.data, "GET /admin/users").users;
+};
+
+// Disabling a user also signs them out everywhere.
+export const updateUser = async (id: string, changes: { role?: Role; disabled?: boolean }) => {
+  const res = await api.patch(`/admin/users/${id}`, changes);
+  return parse(z.object({ user: adminUserSchema }), res.data, `PATCH /admin/users/${id}`).user;
+};
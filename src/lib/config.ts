@@ -0,0 +1,15 @@
+// Runtime configuration read from Vite env variables.
+
+export const API_BASE_URL: string = import.meta.env.VITE_API_URL || "/api";
+
+// Serve every request from the in-browser mock backend (src/mocks) instead of
+// the real API. For offline development and demos.
+export const USE_MOCK_API: boolean = import.meta.env.VITE_MOCK_API === "true";
+
+// Where the session lives. "storage" keeps both tokens in localStorage; "cookie"
+// keeps the access token in memory only and refreshes through an httpOnly
+// cookie, so injected script has no long-lived credential to steal.
+export const SESSION_MODE: "storage" | "cookie" = import.meta.env.VITE_SESSION_MODE === "cookie" ? "cookie" : "storage";
+
+// Sign out after this many minutes without user activity in any tab; 0 turns it off.
+export const IDLE_TIMEOUT_MS: number = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES || 30) * 60_000;
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  filterTagIds,
+  hasContentFilter,
+  matchesContentFilter,
+  planContentQuery,
+  rankHits,
+  type ContentFilter,
+} from "@/lib/contentQuery";
+import type { Content, SearchHit } from "@/lib/domain";
+import { parseSearchQuery } from "@/lib/searchQuery";
+
+const TAGS = { work: "t-work", ideas: "t-ideas", archive: "t-archive" };
+
+const plan = (query: string, filterTagIds: string[] = []) =>
+  planContentQuery(parseSearchQuery(query), TAGS, filterTagIds);
+
+const content = (
+  id: string,
+  title: string,
+  body = "",
+  contentType: Exclude<Content["contentType"], "YOUTUBE_VIDEO"> = "PLAIN_TEXT"
+): Content => ({ id, title, body, contentType, createdAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" });
+
+const NO_FILTER: ContentFilter = { anyTagIds: [], allTagIds: [], excludeTagIds: [], phrases: [] };
+
+describe("planContentQuery", () => {
+  it("lists everything for an empty query", () => {
+    expect(plan("")).toEqual({ source: { kind: "all" }, filter: NO_FILTER });
+  });
+
+  it("sends only the text to search and checks every filter itself", () => {
+    expect(plan('notes "exact phrase" type:MARKDOWN tag:work -tag:archive', ["t-ideas"])).toEqual({
+      source: { kind: "search", q: 'notes "exact phrase"' },
+      filter: {
+        anyTagIds: ["t-ideas"],
+        allTagIds: ["t-work"],
+        excludeTagIds: ["t-archive"],
+        contentType: "MARKDOWN",
+        phrases: ["exact phrase"],
+      },
+    });
+  });
+
+  it("lists by the Filter dialog's tags and checks tag: terms itself", () => {
+    expect(plan("tag:Work", ["t-ideas", "t-archive"])).toEqual({
+      source: { kind: "by-tags", tagIds: ["t-ideas", "t-archive"] },
+      filter: { ...NO_FILTER, allTagIds: ["t-work"] },
+    });
+  });
+
+  it("lists by the first tag: term and requires the rest", () => {
+    expect(plan("tag:work tag:ideas tag:work")).toEqual({
+      source: { kind: "by-tags", tagIds: ["t-work"] },
+      filter: { ...NO_FILTER, allTagIds: ["t-ideas"] },
+    });
+  });
+
+  it("never calls by-tags without tags for type: or -tag: alone", () => {
+    expect(plan("type:MARKDOWN").source).toEqual({ kind: "all" });
+    expect(plan("-tag:archive")).toEqual({ source: { kind: "all" }, filter: { ...NO_FILTER, excludeTagIds: ["t-archive"] } });
+  });
+
+  it("drops tag names that resolved to nothing", () => {
+    expect(plan("-tag:missing").filter.excludeTagIds).toEqual([]);
+  });
+});
+
+describe("filterTagIds", () => {
+  it("lists each tag the filter checks once", () => {
+    expect(filterTagIds({ ...NO_FILTER, anyTagIds: ["a", "b"], allTagIds: ["b"], excludeTagIds: ["c"] })).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+});
+
+describe("hasContentFilter", () => {
+  it("is false only when the source returns exactly the rows to show", () => {
+    expect(hasContentFilter(plan("tag:work").filter)).toBe(false);
+    expect(hasContentFilter(plan("", ["t-ideas"]).filter)).toBe(false);
+    expect(hasContentFilter(plan("tag:work tag:ideas").filter)).toBe(true);
+    expect(hasContentFilter(plan("-tag:archive").filter)).toBe(true);
+    expect(hasContentFilter(plan('type:MARKDOWN "a phrase"').filter)).toBe(true);
+  });
+});
+
+describe("matchesContentFilter", () => {
+  const members = { "t-work": new Set(["1", "2"]), "t-ideas": new Set(["2", "3"]), "t-archive": new Set(["3"]) };
+  const ids = (filter: ContentFilter) =>
+    ["1", "2", "3", "4"].filter((id) => matchesContentFilter(content(id, `Note ${id}`), filter, members));
+
+  it("requires every tag: term", () => {
+    expect(ids({ ...NO_FILTER, allTagIds: ["t-work", "t-ideas"] })).toEqual(["2"]);
+  });
+
+  it("requires any one of the Filter dialog's tags", () => {
+    expect(ids({ ...NO_FILTER, anyTagIds: ["t-work", "t-ideas"] })).toEqual(["1", "2", "3"]);
+  });
+
+  it("leaves out excluded tags", () => {
+    expect(ids({ ...NO_FILTER, excludeTagIds: ["t-archive"] })).toEqual(["1", "2", "4"]);
+  });
+
+  it("checks the content type and phrases", () => {
+    const markdown = content("5", "Release Notes", "The  quick brown fox", "MARKDOWN");
+    expect(matchesContentFilter(markdown, { ...NO_FILTER, contentType: "MARKDOWN" }, members)).toBe(true);
+    expect(matchesContentFilter(markdown, { ...NO_FILTER, contentType: "PLAIN_TEXT" }, members)).toBe(false);
+    expect(matchesContentFilter(markdown, { ...NO_FILTER, phrases: ["quick BROWN"] }, members)).toBe(true);
+    expect(matchesContentFilter(markdown, { ...NO_FILTER, phrases: ["brown quick"] }, members)).toBe(false);
+  });
+});
+
+describe("rankHits", () => {
+  const hits: SearchHit[] = [
+    { ...content("1", "Gardening", "tomatoes and basil"), score: 0.9 },
+    { ...content("2", "Databases", "indexing in postgres"), score: 0.5 },
+    { ...content("3", "Notes", "a postgres index"), score: 0.2 },
+  ];
+
+  it("keeps the backend's order and scores for semantic", () => {
+    expect(rankHits(hits, "semantic", parseSearchQuery("postgres"))).toBe(hits);
+  });
+
+  it("scores by shared words for keyword, dropping hits with none", () => {
+    const ranked = rankHits(hits, "keyword", parseSearchQuery("databases postgres"));
+    expect(ranked.map((hit) => [hit.id, hit.score])).toEqual([
+      ["2", 0.8],
+      ["3", 0.3],
+    ]);
+  });
+
+  it("averages both scores for hybrid", () => {
+    const ranked = rankHits(hits, "hybrid", parseSearchQuery("postgres"));
+    expect(ranked.map((hit) => hit.id)).toEqual(["2", "1", "3"]);
+    expect(ranked[0].score).toBeCloseTo(0.55);
+  });
+
+  it("uses the keyword score alone for hybrid when the backend sends no scores", () => {
+    const unscored = hits.map((hit) => ({ ...hit, score: undefined }));
+    expect(rankHits(unscored, "hybrid", parseSearchQuery("gardening")).map((hit) => [hit.id, hit.score])).toEqual([
+      ["1", 1],
+      ["2", 0],
+      ["3", 0],
+    ]);
+  });
+});
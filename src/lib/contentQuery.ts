@@ -0,0 +1,95 @@
+import type { Content, ContentType, SearchHit } from "@/lib/domain";
+import { containsPhrase, keywordScore } from "@/lib/searchMatch";
+import { hasSearchText, highlightText, type ParsedSearchQuery, type SearchMode } from "@/lib/searchQuery";
+
+// The backend only searches by text and lists contents tagged with any of
+// some tags. The rest of a Contents query (type:, -tag:, tag: meaning "all
+// of", "phrases" and the search mode) is applied here, to the rows those
+// calls return.
+
+export type ContentSource =
+  | { kind: "all" }
+  // GET /content/by-tags; never empty.
+  | { kind: "by-tags"; tagIds: string[] }
+  | { kind: "search"; q: string };
+
+export interface ContentFilter {
+  // Tagged with at least one of these (the Filter dialog's tags).
+  anyTagIds: string[];
+  // Tagged with every one of these (tag: terms).
+  allTagIds: string[];
+  excludeTagIds: string[];
+  contentType?: ContentType;
+  phrases: string[];
+}
+
+export interface ContentQueryPlan {
+  source: ContentSource;
+  // What is left to check on each row the source returns.
+  filter: ContentFilter;
+}
+
+// Each tag id in a filter mapped to the ids of the contents tagged with it.
+export type TagMembers = Record<string, Set<string>>;
+
+// Picks the call for a query and the checks left over for the client.
+// `tagIdsByName` maps lowercased tag names to ids (see resolveTagNames);
+// `filterTagIds` are the Filter dialog's tags.
+export const planContentQuery = (
+  parsed: ParsedSearchQuery,
+  tagIdsByName: Record<string, string>,
+  filterTagIds: string[]
+): ContentQueryPlan => {
+  const idsOf = (names: string[]) => [...new Set(names.flatMap((name) => tagIdsByName[name.toLowerCase()] ?? []))];
+  const filter: ContentFilter = {
+    anyTagIds: [],
+    allTagIds: idsOf(parsed.tags),
+    excludeTagIds: idsOf(parsed.excludeTags),
+    contentType: parsed.contentType,
+    phrases: parsed.phrases,
+  };
+
+  if (hasSearchText(parsed)) return { source: { kind: "search", q: parsed.text }, filter: { ...filter, anyTagIds: filterTagIds } };
+  if (filterTagIds.length > 0) return { source: { kind: "by-tags", tagIds: filterTagIds }, filter };
+  // by-tags ORs its tags, so list by one required tag and check the others here.
+  if (filter.allTagIds.length > 0) {
+    const [first, ...rest] = filter.allTagIds;
+    return { source: { kind: "by-tags", tagIds: [first] }, filter: { ...filter, allTagIds: rest } };
+  }
+  return { source: { kind: "all" }, filter };
+};
+
+// The tags whose contents must be known to apply the filter.
+export const filterTagIds = ({ anyTagIds, allTagIds, excludeTagIds }: ContentFilter) => [
+  ...new Set([...anyTagIds, ...allTagIds, ...excludeTagIds]),
+];
+
+// Whether the filter can drop rows, leaving the source's pages short.
+export const hasContentFilter = (filter: ContentFilter) =>
+  filterTagIds(filter).length > 0 || !!filter.contentType || filter.phrases.length > 0;
+
+export const matchesContentFilter = (content: Content, filter: ContentFilter, members: TagMembers) => {
+  const tagged = (tagId: string) => members[tagId]?.has(content.id) ?? false;
+  return (
+    (!filter.contentType || content.contentType === filter.contentType) &&
+    (filter.anyTagIds.length === 0 || filter.anyTagIds.some(tagged)) &&
+    filter.allTagIds.every(tagged) &&
+    !filter.excludeTagIds.some(tagged) &&
+    filter.phrases.every((phrase) => containsPhrase(content, phrase))
+  );
+};
+
+// Semantic keeps the backend's order and scores. Keyword re-scores hits by
+// the words they share with the query and drops those sharing none; hybrid
+// averages the two scores. Contents ranks each fetched page on its own, so
+// rows on screen never move, though a better hit on a later page stays there.
+export const rankHits = (hits: SearchHit[], mode: SearchMode, parsed: ParsedSearchQuery): SearchHit[] => {
+  if (mode === "semantic") return hits;
+  const words = highlightText(parsed);
+  const scored = hits.map((hit) => {
+    const keyword = keywordScore(hit, words);
+    return { ...hit, score: mode === "hybrid" && hit.score !== undefined ? (hit.score + keyword) / 2 : keyword };
+  });
+  // sort() is stable, so ties keep the backend's order.
+  return scored.filter((hit) => mode !== "keyword" || hit.score > 0).sort((a, b) => b.score - a.score);
+};
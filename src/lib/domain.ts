@@ -0,0 +1,98 @@
+import type { z } from "zod";
+import type {
+  ContentTag,
+  SuggestionsResponse,
+  User,
+  contentSchema,
+  searchHitSchema,
+  tagSchema,
+  youtubeMetadataSchema,
+} from "@/lib/schemas";
+
+// Shared domain model used by every screen. Wire shapes live in schemas.ts;
+// the mappers below are the only place backend field names are translated.
+
+export type Content = z.infer<typeof contentSchema>;
+export type ContentType = Content["contentType"];
+export type YoutubeContent = Extract<Content, { contentType: "YOUTUBE_VIDEO" }>;
+export type YoutubeMetadata = z.infer<typeof youtubeMetadataSchema>;
+export type SearchHit = z.infer<typeof searchHitSchema>;
+
+export const CONTENT_TYPES: { value: ContentType; label: string }[] = [
+  { value: "PLAIN_TEXT", label: "Plain Text" },
+  { value: "MARKDOWN", label: "Markdown" },
+  { value: "YOUTUBE_VIDEO", label: "YouTube Video" },
+];
+
+export const isYoutubeContent = (content: Content): content is YoutubeContent =>
+  content.contentType === "YOUTUBE_VIDEO";
+
+// The 11-character video id from any of YouTube's URL shapes, or null.
+export const extractYoutubeVideoId = (url: string): string | null => {
+  const match = url.match(/(?:youtube\.com\/(?:[^/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?/\s]{11})/);
+  return match ? match[1] : null;
+};
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// A tag attached to a piece of content.
+export interface TagItem {
+  id: string; // UserTag ID
+  name: string;
+  linkId: string; // ContentTag ID
+}
+
+export interface ExistingSuggestion {
+  type: "EXISTING";
+  id: string; // Tag ID
+  name: string;
+  score: number;
+}
+
+export interface KeywordSuggestion {
+  type: "KEYWORD";
+  name: string; // Keyword, not yet a tag
+  score: number;
+  variants: string[];
+}
+
+export type SuggestionItem = ExistingSuggestion | KeywordSuggestion;
+
+export const isExistingSuggestion = (s: SuggestionItem): s is ExistingSuggestion => s.type === "EXISTING";
+export const isKeywordSuggestion = (s: SuggestionItem): s is KeywordSuggestion => s.type === "KEYWORD";
+
+// --- Mappers ---
+
+export const toTagItem = (link: ContentTag): TagItem => ({
+  id: link.tagId,
+  name: link.name,
+  linkId: link.id,
+});
+
+export const toSuggestionItems = ({ existing, potential }: SuggestionsResponse): SuggestionItem[] => [
+  ...existing.map((s): ExistingSuggestion => ({ type: "EXISTING", id: s.tagId, name: s.name, score: s.score })),
+  ...potential.map((p): KeywordSuggestion => ({
+    type: "KEYWORD",
+    name: p.keyword,
+    score: p.score,
+    variants: p.variants ?? [],
+  })),
+];
+
+// Swaps a keyword suggestion's name with one of its variants, keeping the old name as a variant.
+export const swapKeywordVariant = (suggestion: KeywordSuggestion, variant: string): KeywordSuggestion => ({
+  ...suggestion,
+  name: variant,
+  variants: [suggestion.name, ...suggestion.variants].filter((v) => v !== variant),
+});
+
+// Roles as sent by the backend in `user.role`.
+export const ROLES = { user: "USER", admin: "ADMIN" } as const;
+export type Role = (typeof ROLES)[keyof typeof ROLES];
+
+export const hasRole = (user: Pick<User, "role"> | null | undefined, ...roles: Role[]) =>
+  !!user && (roles as string[]).includes(user.role);
+
+// Identity providers offered as "Continue with ..." on the sign-in screens.
+export const OAUTH_PROVIDERS = { google: "Google", github: "GitHub" } as const;
+export type OAuthProvider = keyof typeof OAUTH_PROVIDERS;
@@ -0,0 +1,146 @@
+import axios from "axios";
+import { z } from "zod";
+import { parseRetryAfter } from "@/lib/rateLimit";
+
+// Every failed API call surfaces as an ApiError (see the last interceptor in
+// api.ts), so screens branch on `kind` instead of poking at axios internals.
+
+export type ApiErrorKind = "network" | "auth" | "validation" | "rate-limit" | "not-found" | "server";
+
+interface ApiErrorOptions {
+  status?: number | null;
+  code?: string | null;
+  fieldErrors?: Record<string, string>;
+  serverMessage?: string | null;
+  requestId?: string | null;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly code: string | null;
+  readonly fieldErrors: Record<string, string>;
+  // The backend's own explanation, when it sent one.
+  readonly serverMessage: string | null;
+  readonly requestId: string | null;
+  readonly retryAfterMs: number | null;
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status ?? null;
+    this.code = options.code ?? null;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.serverMessage = options.serverMessage ?? null;
+    this.requestId = options.requestId ?? null;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
+
+// Thrown when a response does not match the schema we expect from the backend.
+// Surfacing drift here keeps malformed data from crashing deep inside components.
+export class ApiContractError extends ApiError {
+  readonly endpoint: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(endpoint: string, error: z.ZodError) {
+    super("server", `Unexpected response from ${endpoint}:\n${z.prettifyError(error)}`, { cause: error });
+    this.name = "ApiContractError";
+    this.endpoint = endpoint;
+    this.issues = error.issues;
+  }
+}
+
+const kindForStatus = (status: number): ApiErrorKind => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not-found";
+  if (status === 429) return "rate-limit";
+  if (status >= 500) return "server";
+  return "validation";
+};
+
+// The backend reports field problems either as a { field: message } map or as
+// a list of { path | field, message } issues.
+const readFieldErrors = (data: Record<string, unknown>): Record<string, string> => {
+  const source = data.fieldErrors ?? data.errors ?? data.details;
+  const fieldErrors: Record<string, string> = {};
+
+  if (Array.isArray(source)) {
+    for (const issue of source) {
+      const path = issue?.field ?? issue?.path;
+      const field = Array.isArray(path) ? path.join(".") : path;
+      if (typeof field === "string" && field && typeof issue?.message === "string") {
+        fieldErrors[field] ??= issue.message;
+      }
+    }
+  } else if (source && typeof source === "object") {
+    for (const [field, message] of Object.entries(source)) {
+      const text = Array.isArray(message) ? message[0] : message;
+      if (typeof text === "string") fieldErrors[field] = text;
+    }
+  }
+  return fieldErrors;
+};
+
+const readString = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Converts anything thrown by axios into an ApiError. Cancellations are passed
+// through untouched so callers (and react-query) can still recognise them.
+export const toApiError = (error: unknown): unknown => {
+  if (error instanceof ApiError || axios.isCancel(error) || !axios.isAxiosError(error)) {
+    return error;
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new ApiError("network", error.message || "Network error", { code: error.code, cause: error });
+  }
+
+  const data = (response.data && typeof response.data === "object" ? response.data : {}) as Record<string, unknown>;
+  const serverMessage = readString(data.error) ?? readString(data.message);
+
+  return new ApiError(kindForStatus(response.status), serverMessage ?? error.message, {
+    status: response.status,
+    code: readString(data.code),
+    fieldErrors: readFieldErrors(data),
+    serverMessage,
+    requestId: readString(response.headers?.["x-request-id"]) ?? readString(data.requestId),
+    retryAfterMs: parseRetryAfter(response.headers?.["retry-after"]),
+    cause: error,
+  });
+};
+
+// User-facing text for a failure. Server-provided messages are shown for
+// problems the user can fix (bad input, wrong password); everything else gets
+// a consistent generic message.
+export const getErrorMessage = (error: unknown, fallback: string = "Something went wrong"): string => {
+  if (!isApiError(error)) return fallback;
+
+  switch (error.kind) {
+    case "network":
+      return "Can't reach the server. Check your connection and try again.";
+    case "rate-limit":
+      return error.retryAfterMs
+        ? `Too many requests. Please wait ${Math.ceil(error.retryAfterMs / 1000)}s and try again.`
+        : "Too many requests. Please wait a moment and try again.";
+    case "server":
+      return error.requestId
+        ? `Something went wrong on our side (ref ${error.requestId}). Please try again.`
+        : "Something went wrong on our side. Please try again.";
+    case "auth":
+    case "validation":
+    case "not-found":
+      return error.serverMessage ?? Object.values(error.fieldErrors)[0] ?? fallback;
+  }
+};
+
+export const isRateLimitError = (error: unknown) => isApiError(error) && error.kind === "rate-limit";
+
+// The refresh token's session was signed out from another device (or by the
+// server); signing in again is the only way forward.
+export const isSessionRevokedError = (error: unknown) => isApiError(error) && error.code === "SESSION_REVOKED";
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import { extractYoutubeVideoId } from "@/lib/domain";
+import { getErrorMessage, isApiError } from "@/lib/errors";
+
+// Schemas for what users type into forms (wire shapes live in schemas.ts),
+// plus the glue between ApiError and react-hook-form.
+
+export const MIN_PASSWORD_LENGTH = 6;
+export const MAX_TAG_NAME_LENGTH = 64;
+export const MAX_TITLE_LENGTH = 200;
+
+const email = z.email("Enter a valid email address");
+const name = z.string().trim().min(1, "Enter your name");
+const password = z.string().min(1, "Enter your password");
+const newPassword = z.string().min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters`);
+const TOTP_CODE = /^\d{6}$/;
+
+export const loginFormSchema = z.object({ email, password });
+
+export const registerFormSchema = z.object({ name, email, password: newPassword });
+
+// Forms that only ask for an address: forgot password, resend verification.
+export const emailFormSchema = z.object({ email });
+
+export const profileFormSchema = z.object({ name });
+
+// Confirms who is acting: linking a provider, turning off 2FA, deleting the account.
+export const passwordFormSchema = z.object({ password });
+
+// A new password typed twice (reset, set and change).
+const passwordsMatch = (values: { newPassword: string; confirmPassword: string }) =>
+  values.newPassword === values.confirmPassword;
+const mismatch = { path: ["confirmPassword"], message: "Passwords don't match" };
+
+export const newPasswordFormSchema = z
+  .object({ newPassword, confirmPassword: z.string() })
+  .refine(passwordsMatch, mismatch);
+
+export const changePasswordFormSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Enter your current password"),
+    newPassword,
+    confirmPassword: z.string(),
+  })
+  .refine(passwordsMatch, mismatch);
+
+// Enrolling an authenticator only takes its code.
+export const totpCodeFormSchema = z.object({
+  code: z.string().regex(TOTP_CODE, "Enter the 6-digit code"),
+});
+
+// Signing in takes an authenticator code or a recovery code.
+export const secondFactorFormSchema = z
+  .object({ method: z.enum(["totp", "recovery"]), code: z.string().trim() })
+  .superRefine((values, ctx) => {
+    if (values.method === "totp" && !TOTP_CODE.test(values.code)) {
+      ctx.addIssue({ code: "custom", path: ["code"], message: "Enter the 6-digit code" });
+    }
+    if (values.method === "recovery" && !values.code) {
+      ctx.addIssue({ code: "custom", path: ["code"], message: "Enter a recovery code" });
+    }
+  });
+
+export const tagFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Give the tag a name")
+    .max(MAX_TAG_NAME_LENGTH, `Keep it under ${MAX_TAG_NAME_LENGTH} characters`),
+  semantic: z.string().trim(),
+});
+
+const title = z.string().trim().max(MAX_TITLE_LENGTH, `Keep it under ${MAX_TITLE_LENGTH} characters`);
+const contentType = z.enum(["PLAIN_TEXT", "MARKDOWN", "YOUTUBE_VIDEO"]);
+
+export const editContentFormSchema = z
+  .object({
+    title: title.min(1, "Title is required"),
+    body: z.string(),
+    contentType,
+  })
+  // Videos keep their text in metadata, so their body may be empty.
+  .superRefine((values, ctx) => {
+    if (values.contentType !== "YOUTUBE_VIDEO" && !values.body.trim()) {
+      ctx.addIssue({ code: "custom", path: ["body"], message: "Write something first" });
+    }
+  });
+
+// CreateContentModal is a wizard over one form; each step validates with its own schema.
+const newContentFields = z.object({
+  title,
+  // The body, or the video URL for YouTube content.
+  content: z.string(),
+  description: z.string(),
+  transcript: z.string(),
+  contentType,
+});
+
+export const newContentStepSchema = newContentFields.superRefine((values, ctx) => {
+  if (values.contentType === "YOUTUBE_VIDEO") {
+    if (!extractYoutubeVideoId(values.content)) {
+      const message = values.content.trim() ? "That doesn't look like a YouTube URL" : "Paste a YouTube URL";
+      ctx.addIssue({ code: "custom", path: ["content"], message });
+    }
+    return;
+  }
+  if (!values.title) ctx.addIssue({ code: "custom", path: ["title"], message: "Title is required" });
+  if (!values.content.trim()) ctx.addIssue({ code: "custom", path: ["content"], message: "Write something first" });
+});
+
+export const transcriptStepSchema = newContentFields.extend({
+  transcript: z.string().trim().min(1, "Paste the transcript first"),
+});
+
+export type LoginFormValues = z.infer<typeof loginFormSchema>;
+export type RegisterFormValues = z.infer<typeof registerFormSchema>;
+export type EmailFormValues = z.infer<typeof emailFormSchema>;
+export type ProfileFormValues = z.infer<typeof profileFormSchema>;
+export type PasswordFormValues = z.infer<typeof passwordFormSchema>;
+export type NewPasswordFormValues = z.infer<typeof newPasswordFormSchema>;
+export type ChangePasswordFormValues = z.infer<typeof changePasswordFormSchema>;
+export type TotpCodeFormValues = z.infer<typeof totpCodeFormSchema>;
+export type SecondFactorFormValues = z.infer<typeof secondFactorFormSchema>;
+export type TagFormValues = z.infer<typeof tagFormSchema>;
+export type EditContentFormValues = z.infer<typeof editContentFormSchema>;
+export type NewContentFormValues = z.infer<typeof newContentFields>;
+
+// Puts the server's field errors on the matching inputs, focusing the first.
+// `aliases` maps server field names that differ from the form's (e.g.
+// "content" -> "body"). Errors that match no input end up in `root.server`.
+export const applyServerErrors = <T extends FieldValues>(
+  form: Pick<UseFormReturn<T>, "setError" | "getValues">,
+  error: unknown,
+  fallback: string,
+  aliases: Record<string, Path<T>> = {}
+) => {
+  const fields = Object.keys(form.getValues());
+  let matched = false;
+
+  for (const [name, message] of Object.entries(isApiError(error) ? error.fieldErrors : {})) {
+    const field = aliases[name] ?? (fields.includes(name) ? (name as Path<T>) : null);
+    if (!field) continue;
+    form.setError(field, { type: "server", message }, { shouldFocus: !matched });
+    matched = true;
+  }
+
+  if (!matched) form.setError("root.server", { type: "server", message: getErrorMessage(error, fallback) });
+};
@@ -0,0 +1,64 @@
+// Inactivity tracking shared by every open tab: input in any tab is written to
+// localStorage, so all tabs agree on when the user was last active and time
+// out together.
+
+const ACTIVITY_KEY = "lastActivity";
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+// Writing on every mouse move would flood other tabs with storage events.
+const WRITE_THROTTLE_MS = 5_000;
+const CHECK_INTERVAL_MS = 1_000;
+
+export const recordActivity = () => localStorage.setItem(ACTIVITY_KEY, String(Date.now()));
+
+const getLastActivity = () => {
+  const stored = Number(localStorage.getItem(ACTIVITY_KEY));
+  if (stored) return stored;
+  recordActivity();
+  return Date.now();
+};
+
+interface IdleTimerOptions {
+  timeoutMs: number;
+  warningMs: number;
+  // Seconds until sign-out while inside the warning window, otherwise null.
+  onWarningChange: (secondsLeft: number | null) => void;
+  onTimeout: () => void;
+}
+
+// Watches for inactivity and reports the warning countdown and the timeout.
+// Input in this tab is ignored once the warning shows, so staying signed in
+// takes a deliberate recordActivity() (the dialog's button). The deadline is
+// re-read every second, which also catches up after the device sleeps.
+// Returns a cleanup function.
+export const startIdleTimer = ({ timeoutMs, warningMs, onWarningChange, onTimeout }: IdleTimerOptions) => {
+  let lastWrite = 0;
+  let warning = false;
+
+  const handleActivity = () => {
+    if (warning || Date.now() - lastWrite < WRITE_THROTTLE_MS) return;
+    lastWrite = Date.now();
+    recordActivity();
+  };
+
+  const stop = () => {
+    clearInterval(interval);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+  };
+
+  const check = () => {
+    const remaining = getLastActivity() + timeoutMs - Date.now();
+    if (remaining <= 0) {
+      stop();
+      onTimeout();
+      return;
+    }
+    warning = remaining <= warningMs;
+    onWarningChange(warning ? Math.ceil(remaining / 1000) : null);
+  };
+
+  const interval = setInterval(check, CHECK_INTERVAL_MS);
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+  check();
+
+  return stop;
+};
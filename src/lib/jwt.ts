@@ -0,0 +1,29 @@
+interface JwtClaims {
+  exp?: number;
+  iat?: number;
+}
+
+// Reads a JWT's claims without verifying it. Only used for scheduling; the
+// backend remains the authority on whether a token is valid.
+export const decodeJwt = (token: string): JwtClaims | null => {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const json = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+    return JSON.parse(json) as JwtClaims;
+  } catch {
+    return null;
+  }
+};
+
+// Expiry and lifetime of a token in milliseconds, or null if it carries no `exp`.
+export const getTokenTiming = (token: string) => {
+  const claims = decodeJwt(token);
+  if (!claims?.exp) return null;
+
+  const expiresAt = claims.exp * 1000;
+  const lifetime = claims.iat ? expiresAt - claims.iat * 1000 : null;
+  return { expiresAt, lifetime };
+};
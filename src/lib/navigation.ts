@@ -0,0 +1,26 @@
+// Helpers for sending users to /login and back to where they were.
+
+const AUTH_PATHS = ["/login", "/register", "/verify", "/forgot-password", "/reset-password", "/auth/callback"];
+
+export const currentPath = () => window.location.pathname + window.location.search + window.location.hash;
+
+// Only same-origin, non-auth paths are valid post-login destinations.
+export const safeReturnPath = (value: unknown): string => {
+  if (typeof value !== "string" || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+  const pathname = value.split(/[?#]/)[0];
+  return AUTH_PATHS.includes(pathname) ? "/" : value;
+};
+
+export const loginUrl = (returnTo?: string) => {
+  const target = safeReturnPath(returnTo);
+  return target === "/" ? "/login" : `/login?redirect=${encodeURIComponent(target)}`;
+};
+
+// The list a content page was opened from (passed as location state `from`),
+// so "Back to Contents" returns to the same search, filter and page.
+export const contentsBackPath = (state: unknown): string => {
+  const from = (state as { from?: unknown } | null)?.from;
+  return typeof from === "string" && /^\/contents(\?|$)/.test(from) ? from : "/contents";
+};
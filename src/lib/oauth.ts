@@ -0,0 +1,67 @@
+import { getOAuthAuthorizeUrl } from "@/lib/client";
+import { OAUTH_PROVIDERS, type OAuthProvider } from "@/lib/domain";
+
+// The provider round trip leaves the app, so what we need afterwards is kept
+// in sessionStorage. The random `state` must come back unchanged on the
+// callback; anything else is a forged or stale redirect.
+
+const PENDING_KEY = "oauthPending";
+
+interface PendingOAuth {
+  state: string;
+  provider: OAuthProvider;
+  returnTo: string;
+  // Started by startOAuthPopup: the callback closes the popup when done.
+  popup?: boolean;
+}
+
+export const oauthRedirectUri = () => `${window.location.origin}/auth/callback`;
+
+// Leaves for the provider's consent page.
+export const startOAuth = async (provider: OAuthProvider, returnTo: string = "/") => {
+  const state = crypto.randomUUID();
+  const pending: PendingOAuth = { state, provider, returnTo };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  window.location.assign(await getOAuthAuthorizeUrl(provider, state, oauthRedirectUri()));
+};
+
+// Signs in through the provider in a popup, so the page behind it keeps its
+// state (see SessionExpiredDialog). The popup's new session reaches the opener
+// as a "refreshed" session event. Resolves false if the popup was blocked.
+export const startOAuthPopup = async (provider: OAuthProvider) => {
+  // Opened before anything is awaited, while the click still counts as a user gesture.
+  const popup = window.open("about:blank", "vekku-oauth", "popup,width=480,height=640");
+  if (!popup) return false;
+  try {
+    const state = crypto.randomUUID();
+    const pending: PendingOAuth = { state, provider, returnTo: "/", popup: true };
+    // about:blank shares our origin, so this is the storage the callback will read.
+    popup.sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+    popup.location.assign(await getOAuthAuthorizeUrl(provider, state, oauthRedirectUri()));
+    return true;
+  } catch (err) {
+    popup.close();
+    throw err;
+  }
+};
+
+// The sign-in this tab started, if `state` matches it. It is forgotten either
+// way, so a callback URL can't be replayed.
+export const takePendingOAuth = (state: string | null): PendingOAuth | null => {
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  try {
+    const pending = JSON.parse(raw ?? "null") as PendingOAuth | null;
+    if (!pending || !state || pending.state !== state || !(pending.provider in OAUTH_PROVIDERS)) return null;
+    return pending;
+  } catch {
+    return null;
+  }
+};
+
+// User-facing text for the `error` query param providers send instead of a code.
+export const providerErrorMessage = (provider: OAuthProvider, error: string, description: string | null) => {
+  const name = OAUTH_PROVIDERS[provider];
+  if (error === "access_denied") return `Signing in with ${name} was cancelled.`;
+  return description || `${name} couldn't sign you in. Please try again.`;
+};
@@ -0,0 +1,59 @@
+// A rough strength estimate for the register form's meter. It only advises;
+// the real rule is the server's minimum length.
+
+const COMMON_PASSWORDS = new Set([
+  "password",
+  "password1",
+  "123456",
+  "12345678",
+  "123456789",
+  "qwerty",
+  "abc123",
+  "letmein",
+  "iloveyou",
+  "admin",
+  "welcome",
+  "monkey",
+  "dragon",
+  "football",
+]);
+
+export const STRENGTH_LABELS = ["Too weak", "Weak", "Fair", "Good", "Strong"] as const;
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: (typeof STRENGTH_LABELS)[number];
+  // What would make it stronger, if anything.
+  hint: string | null;
+}
+
+// `personal` holds things like the user's name and email, which make poor passwords.
+export const getPasswordStrength = (password: string, personal: string[] = []): PasswordStrength => {
+  const lower = password.toLowerCase();
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/].filter((pattern) => pattern.test(password)).length;
+  const containsPersonal = personal
+    .flatMap((value) => value.toLowerCase().split(/[\s@.]+/))
+    .some((part) => part.length >= 3 && lower.includes(part));
+
+  let score = 0;
+  let hint: string | null = null;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (password.length >= 16 || (password.length >= 10 && classes === 4)) score++;
+
+  if (COMMON_PASSWORDS.has(lower) || /^(.)\1+$/.test(password)) {
+    score = 0;
+    hint = "This password is very easy to guess";
+  } else if (containsPersonal) {
+    score = Math.min(score, 1);
+    hint = "Avoid your name or email";
+  } else if (password.length < 12) {
+    hint = "Longer passwords are stronger";
+  } else if (classes < 3) {
+    hint = "Mix in capitals, numbers or symbols";
+  }
+
+  const clamped = Math.min(score, 4) as PasswordStrength["score"];
+  return { score: clamped, label: STRENGTH_LABELS[clamped], hint };
+};
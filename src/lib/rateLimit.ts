@@ -0,0 +1,69 @@
+// Tracks server-imposed rate limits per API area ("suggestions", "tag", ...)
+// so the UI can show a countdown instead of letting users hammer a button.
+
+const DEFAULT_WINDOW_MS = 10_000;
+
+const limitedUntil = new Map<string, number>();
+const secondsLeft = new Map<string, number>();
+const listeners = new Set<() => void>();
+let ticker: ReturnType<typeof setInterval> | null = null;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const tick = () => {
+  const now = Date.now();
+  for (const [scope, until] of limitedUntil) {
+    const left = Math.ceil((until - now) / 1000);
+    if (left <= 0) {
+      limitedUntil.delete(scope);
+      secondsLeft.delete(scope);
+    } else {
+      secondsLeft.set(scope, left);
+    }
+  }
+  if (limitedUntil.size === 0 && ticker) {
+    clearInterval(ticker);
+    ticker = null;
+  }
+  notify();
+};
+
+// "/suggestions/content/1/regenerate" -> "suggestions"
+export const rateLimitScope = (url: string = "") => url.replace(/^\/+/, "").split(/[/?]/)[0];
+
+// Parses a Retry-After header (delta seconds or an HTTP date) into milliseconds.
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export const markRateLimited = (scope: string, retryAfterMs: number | null) => {
+  const until = Date.now() + (retryAfterMs ?? DEFAULT_WINDOW_MS);
+  limitedUntil.set(scope, Math.max(limitedUntil.get(scope) ?? 0, until));
+  if (!ticker) ticker = setInterval(tick, 1000);
+  tick();
+};
+
+export const getRateLimitSeconds = (scope: string) => secondsLeft.get(scope) ?? 0;
+
+export const subscribeRateLimits = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Resolves once the scope's rate-limit window has passed.
+export const waitForRateLimit = (scope: string) =>
+  new Promise<void>((resolve) => {
+    if (!limitedUntil.has(scope)) return resolve();
+    const unsubscribe = subscribeRateLimits(() => {
+      if (!limitedUntil.has(scope)) {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
@@ -0,0 +1,79 @@
+import { adoptSharedSession, onSessionEvent } from "@/lib/session";
+
+// When a refresh fails, requests wait here while the user signs in again in
+// place (see SessionExpiredDialog) instead of being thrown to /login, which
+// would discard unsaved form state. Once they sign in, the waiting requests
+// are retried with the new token.
+
+interface PendingReauth {
+  promise: Promise<string>;
+  resolve: (token: string) => void;
+  reject: (reason: unknown) => void;
+}
+
+let pending: PendingReauth | null = null;
+let handlerCount = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// Returns a promise for a new access token, or null when no sign-in UI is
+// mounted to collect credentials (the caller should redirect to /login).
+export const requestReauthentication = (): Promise<string> | null => {
+  if (handlerCount === 0) return null;
+
+  if (!pending) {
+    let resolve!: (token: string) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    pending = { promise, resolve, reject };
+    notify();
+  }
+  return pending.promise;
+};
+
+export const completeReauthentication = (token: string) => {
+  pending?.resolve(token);
+  pending = null;
+  notify();
+};
+
+export const abandonReauthentication = (reason: unknown = new Error("Re-authentication cancelled")) => {
+  pending?.reject(reason);
+  pending = null;
+  notify();
+};
+
+export const isReauthPending = () => pending !== null;
+
+export const subscribeReauth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Marks a sign-in UI as available. Returns a function that unregisters it.
+export const registerReauthHandler = () => {
+  handlerCount++;
+  return () => {
+    handlerCount--;
+    if (handlerCount === 0) abandonReauthentication();
+  };
+};
+
+// Another tab signed in again (or refreshed successfully): resume with its token.
+onSessionEvent((event) => {
+  if (!pending) return;
+  if (event.type === "refreshed") {
+    adoptSharedSession()
+      .then((token) => token && completeReauthentication(token))
+      .catch(() => {
+        // The shared session isn't usable here either; keep waiting for the user.
+      });
+  }
+  if (event.type === "logout") abandonReauthentication();
+});
@@ -0,0 +1,167 @@
+import { z } from "zod";
+
+// Wire-level schemas for every backend response the frontend consumes.
+// Keep these in sync with the backend contract; the client validates each
+// response against them before handing data to components.
+
+export const paginationMetadataSchema = z.object({
+  nextChunkId: z.string().nullable(),
+  chunkSize: z.number(),
+  chunkTotalItems: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const paginatedSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    data: z.array(item),
+    metadata: paginationMetadataSchema,
+  });
+
+const contentBaseSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  body: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const youtubeMetadataSchema = z.object({
+  youtubeUrl: z.string(),
+  userDescription: z.string().nullish(),
+  transcript: z.string().nullish(),
+});
+
+export const contentSchema = z.discriminatedUnion("contentType", [
+  contentBaseSchema.extend({
+    contentType: z.enum(["PLAIN_TEXT", "MARKDOWN"]),
+    metadata: z.record(z.string(), z.unknown()).nullish(),
+  }),
+  contentBaseSchema.extend({
+    contentType: z.literal("YOUTUBE_VIDEO"),
+    metadata: youtubeMetadataSchema,
+  }),
+]);
+
+// A row of GET /content/search: the content plus, if the backend scores hits,
+// its similarity to the query (0-1).
+export const searchHitSchema = z.intersection(contentSchema, z.object({ score: z.number().optional() }));
+
+export const tagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  semantic: z.string().nullish(),
+  createdAt: z.string(),
+  _count: z.object({ contents: z.number() }).optional(),
+});
+
+// A row of GET /content/:id/tags. `id` is the link (ContentTag) id.
+export const contentTagSchema = z.object({
+  id: z.string(),
+  tagId: z.string(),
+  name: z.string(),
+});
+
+export const existingSuggestionSchema = z.object({
+  tagId: z.string(),
+  name: z.string(),
+  score: z.number(),
+});
+
+export const potentialSuggestionSchema = z.object({
+  keyword: z.string(),
+  score: z.number(),
+  variants: z.array(z.string()).optional(),
+});
+
+export const suggestionsResponseSchema = z.object({
+  existing: z.array(existingSuggestionSchema).default([]),
+  potential: z.array(potentialSuggestionSchema).default([]),
+});
+
+export const statsSchema = z.object({
+  totalContents: z.number(),
+  totalTags: z.number(),
+});
+
+export const youtubeInfoSchema = z.object({
+  title: z.string().optional(),
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.string(),
+  // false for accounts created through a provider that haven't set a password.
+  // Backends that don't report it are treated as having one.
+  hasPassword: z.boolean().optional(),
+});
+
+export const adminUserSchema = userSchema.extend({
+  email: z.string(),
+  verified: z.boolean(),
+  disabled: z.boolean(),
+  contentCount: z.number(),
+  tagCount: z.number(),
+  createdAt: z.string(),
+});
+
+export const sessionSchema = z.object({
+  id: z.string(),
+  userAgent: z.string().nullable(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  // The session making the request.
+  current: z.boolean(),
+});
+
+export const authTokensSchema = z.object({
+  accessToken: z.string(),
+  // Absent in cookie session mode, where it is an httpOnly cookie.
+  refreshToken: z.string().optional(),
+});
+
+export const loginResponseSchema = authTokensSchema.extend({
+  user: userSchema,
+});
+
+// Returned by /auth/login instead of tokens when the account has 2FA on; the
+// mfaToken is exchanged for tokens at /auth/login/mfa together with a code.
+export const mfaChallengeSchema = z.object({
+  mfaRequired: z.literal(true),
+  mfaToken: z.string(),
+  // Sent for OAuth sign-ins, where the user never typed an email.
+  email: z.string().optional(),
+});
+
+// Returned by the OAuth callback when the provider's email already belongs to
+// a password account; its password links the two at /auth/oauth/link.
+export const oauthLinkRequiredSchema = z.object({
+  linkRequired: z.literal(true),
+  linkToken: z.string(),
+  email: z.string(),
+});
+
+export const mfaStatusSchema = z.object({
+  enabled: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+});
+
+export const mfaSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+});
+
+export type PaginationMetadata = z.infer<typeof paginationMetadataSchema>;
+export type Paginated<T> = { data: T[]; metadata: PaginationMetadata };
+export type ContentTag = z.infer<typeof contentTagSchema>;
+export type SuggestionsResponse = z.infer<typeof suggestionsResponseSchema>;
+export type Stats = z.infer<typeof statsSchema>;
+export type User = z.infer<typeof userSchema>;
+export type AdminUser = z.infer<typeof adminUserSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>;
+export type MfaStatus = z.infer<typeof mfaStatusSchema>;
+export type MfaSetup = z.infer<typeof mfaSetupSchema>;
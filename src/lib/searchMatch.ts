@@ -0,0 +1,134 @@
+import { isYoutubeContent, type Content } from "@/lib/domain";
+
+// Explains search hits to the user: which query words appear where, the
+// passage to show as a snippet, and how to highlight them. Matching is
+// lexical, so a hit the backend found by meaning alone may match nothing here.
+
+const STOP_WORDS = new Set(
+  "a an and are as at be but by for from has have how in into is it its of on or so than that the this to was were what when where which who why will with you your"
+    .split(" ")
+);
+
+const SUFFIXES = ["ies", "ing", "ed", "es", "s"];
+
+// Strips common endings so "indexing" matches "index" and "indexes".
+const stem = (word: string) => {
+  const suffix = SUFFIXES.find((s) => word.endsWith(s) && word.length - s.length >= 3);
+  return suffix ? word.slice(0, -suffix.length) : word;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// The hits at or above `minScore` (0-1). Hits without a score are kept, since
+// there is nothing to compare.
+export const aboveMinScore = <T extends { score?: number }>(hits: T[], minScore: number) =>
+  hits.filter((hit) => hit.score === undefined || hit.score >= minScore);
+
+// The query's meaningful words, lowercased and stemmed.
+export const queryTerms = (query: string): string[] => [
+  ...new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+      .map(stem)
+  ),
+];
+
+// Matches any word starting with one of the terms.
+const termPattern = (terms: string[]) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "giu");
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+// Splits text into runs, marking the ones that match a term.
+export const highlightParts = (text: string, terms: string[]): TextPart[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const found of text.matchAll(termPattern(terms))) {
+    if (found.index > last) parts.push({ text: text.slice(last, found.index), match: false });
+    parts.push({ text: found[0], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+};
+
+const SEARCHABLE_FIELDS = [
+  { key: "title", label: "title" },
+  { key: "body", label: "body" },
+  { key: "description", label: "description" },
+  { key: "transcript", label: "transcript" },
+] as const;
+
+type SearchableField = (typeof SEARCHABLE_FIELDS)[number]["key"];
+
+const fieldsOf = (content: Content): Record<SearchableField, string> => ({
+  title: content.title,
+  body: content.body,
+  description: isYoutubeContent(content) ? (content.metadata.userDescription ?? "") : "",
+  transcript: isYoutubeContent(content) ? (content.metadata.transcript ?? "") : "",
+});
+
+const wordsOf = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export interface FieldMatch {
+  field: string;
+  terms: string[];
+}
+
+// Which query terms appear in which fields, in field order.
+export const explainMatch = (content: Content, terms: string[]): FieldMatch[] => {
+  const fields = fieldsOf(content);
+  return SEARCHABLE_FIELDS.flatMap(({ key, label }) => {
+    const words = new Set(wordsOf(fields[key]));
+    const found = terms.filter((term) => [...words].some((word) => word.startsWith(term)));
+    return found.length > 0 ? [{ field: label, terms: found }] : [];
+  });
+};
+
+const normalizeSpace = (text: string) => text.toLowerCase().replace(/\s+/g, " ");
+
+// Whether a field contains the phrase as written, ignoring case and spacing.
+export const containsPhrase = (content: Content, phrase: string) => {
+  const needle = normalizeSpace(phrase.trim());
+  return Object.values(fieldsOf(content)).some((text) => normalizeSpace(text).includes(needle));
+};
+
+// How many of the query's words (exact, unstemmed) the content has, 0-1,
+// with words in the title counting for more than words elsewhere.
+export const keywordScore = (content: Content, query: string) => {
+  const queryWords = [...new Set(wordsOf(query).filter((word) => !STOP_WORDS.has(word)))];
+  if (queryWords.length === 0) return 0;
+  const fields = fieldsOf(content);
+  const share = (words: Set<string>) => queryWords.filter((word) => words.has(word)).length / queryWords.length;
+  return 0.4 * share(new Set(wordsOf(fields.title))) + 0.6 * share(new Set(Object.values(fields).flatMap(wordsOf)));
+};
+
+// About `length` characters of the body or transcript around the first
+// matching word, on word boundaries, or their opening when nothing matches.
+export const buildSnippet = (content: Content, terms: string[], length: number = 180): string => {
+  const fields = fieldsOf(content);
+  const candidates = [fields.body, fields.transcript, fields.description]
+    .map((text) => text.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  if (candidates.length === 0) return "";
+
+  const pattern = terms.length > 0 ? termPattern(terms) : null;
+  for (const text of candidates) {
+    const index = pattern ? text.search(pattern) : -1;
+    if (index === -1) continue;
+    let start = Math.max(0, index - Math.floor(length / 3));
+    if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+    let end = Math.min(text.length, start + length);
+    if (end < text.length) end = text.lastIndexOf(" ", end) > index ? text.lastIndexOf(" ", end) : end;
+    return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+  }
+
+  const text = candidates[0];
+  return text.length > length ? `${text.slice(0, text.lastIndexOf(" ", length) || length)}…` : text;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { hasSearchText, highlightText, parseSearchQuery } from "@/lib/searchQuery";
+
+describe("parseSearchQuery", () => {
+  it("keeps plain words as the search text", () => {
+    expect(parseSearchQuery("vector  databases")).toEqual({
+      text: "vector databases",
+      phrases: [],
+      tags: [],
+      excludeTags: [],
+      invalid: [],
+    });
+  });
+
+  it("collects quoted phrases and keeps them quoted in the text", () => {
+    const parsed = parseSearchQuery('notes "exact  phrase " more');
+    expect(parsed.phrases).toEqual(["exact  phrase"]);
+    expect(parsed.text).toBe('notes "exact  phrase" more');
+    expect(highlightText(parsed)).toBe("notes  exact  phrase  more");
+  });
+
+  it("treats an unclosed quote as a phrase running to the end", () => {
+    expect(parseSearchQuery('"half open').phrases).toEqual(["half open"]);
+  });
+
+  it("reads type: case-insensitively and flags unknown types", () => {
+    expect(parseSearchQuery("type:markdown").contentType).toBe("MARKDOWN");
+    const parsed = parseSearchQuery("type:VIDEO");
+    expect(parsed.contentType).toBeUndefined();
+    expect(parsed.invalid).toEqual(["type:VIDEO"]);
+  });
+
+  it("splits tag: and -tag: terms, including quoted names", () => {
+    const parsed = parseSearchQuery('tag:work TAG:"two words" -tag:archive');
+    expect(parsed.tags).toEqual(["work", "two words"]);
+    expect(parsed.excludeTags).toEqual(["archive"]);
+    expect(hasSearchText(parsed)).toBe(false);
+  });
+
+  it("searches unknown keys, -type: and empty tags as text", () => {
+    expect(parseSearchQuery("author:me -type:MARKDOWN tag:").text).toBe("author:me -type:MARKDOWN tag:");
+  });
+});
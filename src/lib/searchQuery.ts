@@ -0,0 +1,116 @@
+import { listContentsByTags, listTags, nextChunkedPage, type PageParams, type RequestOptions } from "@/lib/client";
+import { CONTENT_TYPES, type ContentType } from "@/lib/domain";
+
+// The Contents search box understands a small query language on top of
+// free text:
+//   "exact phrase"   must appear as written
+//   type:MARKDOWN    only that content type (PLAIN_TEXT, MARKDOWN, YOUTUBE_VIDEO)
+//   tag:name         tagged with it; several must all match (tag:"two words" for names with spaces)
+//   -tag:name        not tagged with it
+// Anything else, including unknown `key:value` pairs, is searched as text.
+
+export const SEARCH_MODES = {
+  semantic: { label: "Semantic", description: "Matches by meaning, even without shared words" },
+  keyword: { label: "Keyword", description: "Matches the exact words, favouring titles" },
+  hybrid: { label: "Hybrid", description: "Blends meaning and exact words" },
+} as const;
+
+export type SearchMode = keyof typeof SEARCH_MODES;
+
+export const DEFAULT_SEARCH_MODE: SearchMode = "semantic";
+
+export const isSearchMode = (value: unknown): value is SearchMode =>
+  typeof value === "string" && Object.hasOwn(SEARCH_MODES, value);
+
+export interface ParsedSearchQuery {
+  // What to send as the search's `q`: the words and quoted phrases, quotes kept.
+  text: string;
+  phrases: string[];
+  contentType?: ContentType;
+  // Tag names as typed; resolve them to ids before querying.
+  tags: string[];
+  excludeTags: string[];
+  // Filter tokens that made no sense, e.g. type:VIDEO.
+  invalid: string[];
+}
+
+// A token is an optionally negated key:value (value optionally quoted), a
+// quoted phrase, or a bare word.
+const TOKEN = /(-?)(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"?|(\S+)/g;
+
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { text: "", phrases: [], tags: [], excludeTags: [], invalid: [] };
+  const text: string[] = [];
+
+  for (const [token, negated, key, quotedValue, value, phrase, word] of input.matchAll(TOKEN)) {
+    if (phrase !== undefined) {
+      const trimmed = phrase.trim();
+      if (trimmed) {
+        parsed.phrases.push(trimmed);
+        text.push(`"${trimmed}"`);
+      }
+      continue;
+    }
+    if (word !== undefined) {
+      text.push(word);
+      continue;
+    }
+
+    const filterValue = (quotedValue ?? value).trim();
+    const filterKey = key.toLowerCase();
+    if (filterKey === "tag" && filterValue) {
+      (negated ? parsed.excludeTags : parsed.tags).push(filterValue);
+    } else if (filterKey === "type" && !negated) {
+      const type = CONTENT_TYPES.find((t) => t.value === filterValue.toUpperCase());
+      if (type) parsed.contentType = type.value;
+      else parsed.invalid.push(token);
+    } else {
+      text.push(token);
+    }
+  }
+
+  parsed.text = text.join(" ");
+  return parsed;
+};
+
+// Whether the query needs /content/search rather than just filtering the list.
+export const hasSearchText = (parsed: ParsedSearchQuery) => parsed.text.length > 0;
+
+// The words to highlight in results: the text with phrase quotes dropped.
+export const highlightText = (parsed: ParsedSearchQuery) => parsed.text.replace(/"/g, " ");
+
+// Maps each lowercased tag name to its tag's id, matching names exactly but
+// ignoring case. Names without a tag are left out.
+export const resolveTagNames = async (names: string[], options: RequestOptions = {}) => {
+  const found = await Promise.all(
+    names.map(async (name) => {
+      const page = await listTags({ q: name, limit: 50, offset: 0 }, options);
+      const tag = page.data.find((t) => t.name.toLowerCase() === name.toLowerCase());
+      return tag ? [[name.toLowerCase(), tag.id] as const] : [];
+    })
+  );
+  return Object.fromEntries(found.flat()) as Record<string, string>;
+};
+
+// Tag filters are checked against each tag's contents, fetched a page at a
+// time. Past this many pages only the first contents of a tag are known.
+export const MAX_TAG_MEMBER_PAGES = 20;
+const TAG_MEMBER_PAGE_SIZE = 50;
+
+export interface TagMembership {
+  ids: Set<string>;
+  // False when the tag had more contents than MAX_TAG_MEMBER_PAGES pages hold.
+  complete: boolean;
+}
+
+// The ids of the contents tagged with `tagId`, from GET /content/by-tags.
+export const listTagMembers = async (tagId: string, options: RequestOptions = {}): Promise<TagMembership> => {
+  const ids = new Set<string>();
+  let page: PageParams | undefined = { limit: TAG_MEMBER_PAGE_SIZE, offset: 0 };
+  for (let fetched = 0; page && fetched < MAX_TAG_MEMBER_PAGES; fetched++) {
+    const result = await listContentsByTags([tagId], page, options);
+    result.data.forEach((content) => ids.add(content.id));
+    page = nextChunkedPage(page, result);
+  }
+  return { ids, complete: !page };
+};
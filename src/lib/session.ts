@@ -0,0 +1,253 @@
+import axios from "axios";
+import { API_BASE_URL, SESSION_MODE } from "@/lib/config";
+import { isSessionRevokedError, toApiError } from "@/lib/errors";
+import { getTokenTiming } from "@/lib/jwt";
+import { authTokensSchema, type AuthTokens } from "@/lib/schemas";
+
+// Session tokens are shared by every open tab through localStorage. Refreshing
+// rotates the refresh token, so only one tab may refresh at a time: the others
+// wait on a cross-tab lock and then pick up the rotated tokens from storage.
+//
+// In cookie mode (SESSION_MODE) nothing is written to storage: the access token
+// is kept in this module only, and the refresh token is an httpOnly cookie the
+// browser sends to /auth/refresh. Each tab then mints its own access token.
+
+const TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const COOKIE_MODE = SESSION_MODE === "cookie";
+
+let memoryAccessToken: string | null = null;
+
+export const getAccessToken = () => (COOKIE_MODE ? memoryAccessToken : localStorage.getItem(TOKEN_KEY));
+export const getRefreshToken = () => (COOKIE_MODE ? null : localStorage.getItem(REFRESH_TOKEN_KEY));
+
+export const setTokens = ({ accessToken, refreshToken }: AuthTokens) => {
+  if (COOKIE_MODE) {
+    memoryAccessToken = accessToken;
+    return;
+  }
+  localStorage.setItem(TOKEN_KEY, accessToken);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearTokens = () => {
+  memoryAccessToken = null;
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// --- Cross-tab events ---
+
+// "revoked" means the session was signed out from elsewhere (e.g. the sessions
+// page on another device) rather than by the user in this browser.
+export type SessionEvent = { type: "refreshed" } | { type: "logout" } | { type: "revoked" };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const listeners = new Set<SessionListener>();
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel("vekku-session") : null;
+
+const emitLocal = (event: SessionEvent) => listeners.forEach((listener) => listener(event));
+
+if (channel) {
+  channel.onmessage = (e: MessageEvent<SessionEvent>) => emitLocal(e.data);
+} else {
+  // Without BroadcastChannel, fall back to watching the shared token keys.
+  window.addEventListener("storage", (e) => {
+    if (e.key === TOKEN_KEY) emitLocal(e.newValue ? { type: "refreshed" } : { type: "logout" });
+  });
+}
+
+const broadcast = (event: SessionEvent) => channel?.postMessage(event);
+
+// Subscribes to session events raised by other tabs. Returns an unsubscribe function.
+export const onSessionEvent = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Stores tokens from a fresh sign-in and lets other tabs pick them up.
+export const startSession = (tokens: AuthTokens) => {
+  setTokens(tokens);
+  broadcast({ type: "refreshed" });
+};
+
+// Clears this tab's tokens and tells every other tab to sign out too. Script
+// can't delete an httpOnly cookie, so in cookie mode the server is asked to.
+export const endSession = () => {
+  clearTokens();
+  broadcast({ type: "logout" });
+  if (COOKIE_MODE) {
+    axios
+      .post(`${API_BASE_URL}/auth/logout`, {}, { withCredentials: true })
+      .catch((error) => console.warn("Failed to clear the session cookie:", error));
+  }
+};
+
+// The server no longer accepts this session: drop the tokens and notify this
+// tab as well as the others, since nobody here asked to sign out.
+const endRevokedSession = () => {
+  clearTokens();
+  broadcast({ type: "revoked" });
+  emitLocal({ type: "revoked" });
+};
+
+// --- Refresh lock ---
+
+const LOCK_NAME = "vekku-session-refresh";
+const LOCK_KEY = "refreshLock";
+const LOCK_TTL_MS = 15_000;
+const tabId = Math.random().toString(36).slice(2);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const ownsStorageLock = () => localStorage.getItem(LOCK_KEY)?.startsWith(`${tabId}:`) ?? false;
+
+// localStorage fallback for browsers without the Web Locks API. The lock value
+// carries an expiry so a tab that closes mid-refresh cannot hold it forever.
+const withStorageLock = async <T>(fn: () => Promise<T>): Promise<T> => {
+  for (;;) {
+    const [owner, expiresAt] = (localStorage.getItem(LOCK_KEY) || "").split(":");
+    if (!owner || Number(expiresAt) < Date.now()) {
+      localStorage.setItem(LOCK_KEY, `${tabId}:${Date.now() + LOCK_TTL_MS}`);
+      // Another tab may have written at the same moment; the last writer wins.
+      await sleep(50);
+      if (ownsStorageLock()) break;
+    }
+    await sleep(100);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if (ownsStorageLock()) localStorage.removeItem(LOCK_KEY);
+  }
+};
+
+const withRefreshLock = <T>(fn: () => Promise<T>): Promise<T> =>
+  navigator.locks ? (navigator.locks.request(LOCK_NAME, fn) as Promise<T>) : withStorageLock(fn);
+
+// --- Refresh ---
+
+const rotateTokens = async (refreshToken: string | null) => {
+  // Plain axios keeps the refresh call out of the api instance's interceptors.
+  try {
+    const res = COOKIE_MODE
+      ? await axios.post(`${API_BASE_URL}/auth/refresh`, {}, { withCredentials: true })
+      : await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    return authTokensSchema.parse(res.data);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+let inflight: Promise<string> | null = null;
+
+// Returns a fresh access token. `staleToken` is the token a request was rejected
+// with; if another tab has already replaced it, that token is reused as-is.
+export const refreshSession = (staleToken: string | null): Promise<string> => {
+  if (inflight) return inflight;
+
+  inflight = withRefreshLock(async () => {
+    const current = getAccessToken();
+    if (current && current !== staleToken) return current;
+
+    const refreshToken = getRefreshToken();
+    if (!refreshToken && !COOKIE_MODE) throw new Error("No refresh token");
+
+    let tokens: AuthTokens;
+    try {
+      tokens = await rotateTokens(refreshToken);
+    } catch (error) {
+      if (isSessionRevokedError(error)) endRevokedSession();
+      throw error;
+    }
+    setTokens(tokens);
+    broadcast({ type: "refreshed" });
+    return tokens.accessToken;
+  }).finally(() => {
+    inflight = null;
+  });
+
+  return inflight;
+};
+
+// Another tab refreshed or signed in again: returns a token for this tab. In
+// storage mode that tab's token is shared as-is; in cookie mode this tab mints
+// its own from the cookie the other tab just renewed.
+export const adoptSharedSession = (): Promise<string | null> =>
+  COOKIE_MODE ? refreshSession(memoryAccessToken) : Promise.resolve(getAccessToken());
+
+// Picks up an existing session on page load. In cookie mode there is no stored
+// access token, so one is minted from the refresh cookie, if the browser has one.
+export const restoreSession = async (): Promise<string | null> => {
+  if (!COOKIE_MODE) return getAccessToken();
+  try {
+    return await refreshSession(null);
+  } catch {
+    return null;
+  }
+};
+
+// --- Proactive refresh ---
+
+const REFRESH_MARGIN_MS = 60_000;
+const MAX_TIMER_MS = 2_147_483_647;
+
+// How long before expiry a token should be refreshed. Short-lived tokens use
+// half their lifetime so the margin never swallows the whole token.
+const refreshMargin = (lifetime: number | null) =>
+  lifetime ? Math.min(REFRESH_MARGIN_MS, lifetime / 2) : REFRESH_MARGIN_MS;
+
+// Returns a usable access token, refreshing first if the current one is about to expire.
+export const ensureFreshToken = async (): Promise<string | null> => {
+  const token = getAccessToken();
+  if (!token) return null;
+
+  const timing = getTokenTiming(token);
+  if (!timing || timing.expiresAt - Date.now() > refreshMargin(timing.lifetime)) return token;
+  return refreshSession(token);
+};
+
+// Keeps the access token refreshed ahead of its expiry while the app is open.
+// Timers are throttled while a device sleeps, so the token is also checked
+// whenever the tab becomes visible again. Returns a cleanup function.
+export const startProactiveRefresh = () => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const refresh = () => {
+    ensureFreshToken()
+      .then(schedule)
+      .catch((error) => console.warn("Proactive token refresh failed:", error));
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    const token = getAccessToken();
+    const timing = token && getTokenTiming(token);
+    if (!timing) return;
+
+    const delay = timing.expiresAt - Date.now() - refreshMargin(timing.lifetime);
+    timer = setTimeout(refresh, Math.min(Math.max(delay, 0), MAX_TIMER_MS));
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") refresh();
+  };
+
+  // Another tab rotated the tokens; reschedule against the new expiry.
+  const unsubscribe = onSessionEvent((event) => {
+    if (event.type === "refreshed") schedule();
+  });
+
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+  schedule();
+
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+};
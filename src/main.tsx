@@ -2,9 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { USE_MOCK_API } from './lib/config'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// The mock backend is loaded on demand so it never ends up in a normal build's main chunk.
+const ready = USE_MOCK_API
+  ? import('./mocks').then(({ installMockBackend }) => installMockBackend())
+  : Promise.resolve()
+
+ready.then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+})
@@ -0,0 +1,108 @@
+import axios, { AxiosError, AxiosHeaders, CanceledError, type AxiosAdapter, type AxiosResponse } from "axios";
+import { API_BASE_URL } from "@/lib/config";
+import { registerAdminRoutes } from "@/mocks/handlers/admin";
+import { registerAuthRoutes } from "@/mocks/handlers/auth";
+import { registerContentRoutes } from "@/mocks/handlers/contents";
+import { registerMiscRoutes } from "@/mocks/handlers/misc";
+import { registerOAuthRoutes } from "@/mocks/handlers/oauth";
+import { registerSuggestionRoutes } from "@/mocks/handlers/suggestions";
+import { registerTagRoutes } from "@/mocks/handlers/tags";
+import { db, saveDb } from "@/mocks/db";
+import { fail, MockRouter, type MockResponse } from "@/mocks/router";
+
+const router = new MockRouter();
+registerAuthRoutes(router);
+registerOAuthRoutes(router);
+registerContentRoutes(router);
+registerTagRoutes(router);
+registerSuggestionRoutes(router);
+registerMiscRoutes(router);
+registerAdminRoutes(router);
+
+// A little latency keeps loading states and request races visible.
+const MIN_LATENCY_MS = 150;
+const MAX_LATENCY_MS = 450;
+
+const delay = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS));
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    });
+  });
+
+const basePath = new URL(API_BASE_URL, window.location.origin).pathname.replace(/\/$/, "");
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data !== "string") return (data as Record<string, unknown>) ?? {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+};
+
+// An axios adapter that answers requests from the in-memory mock backend
+// instead of the network. Responses go through axios' usual status handling,
+// so interceptors see exactly what they would see from the real API.
+export const mockAdapter: AxiosAdapter = async (config) => {
+  const signal = config.signal as AbortSignal | undefined;
+  if (signal?.aborted) throw new CanceledError();
+  await delay(signal);
+
+  const url = new URL(axios.getUri(config), window.location.origin);
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) || "/" : url.pathname;
+  const method = (config.method ?? "get").toUpperCase();
+  const headers = Object.fromEntries(
+    Object.entries(AxiosHeaders.from(config.headers).toJSON()).map(([key, value]) => [key.toLowerCase(), String(value)])
+  );
+
+  const route = router.match(method, path);
+  let result: MockResponse;
+  try {
+    result = route
+      ? await route.handler({
+          method,
+          path,
+          params: route.params,
+          query: url.searchParams,
+          body: parseBody(config.data),
+          headers,
+          cookies: config.withCredentials ? { ...db.cookies } : {},
+        })
+      : fail(404, `No mock for ${method} ${path}`);
+  } catch (error) {
+    console.error("[mock api] handler failed:", error);
+    result = fail(500, "Mock handler failed");
+  }
+
+  if (result.cookies && config.withCredentials) {
+    for (const [name, value] of Object.entries(result.cookies)) {
+      if (value === null) delete db.cookies[name];
+      else db.cookies[name] = value;
+    }
+    saveDb();
+  }
+
+  const response: AxiosResponse = {
+    data: result.data ?? null,
+    status: result.status,
+    statusText: String(result.status),
+    headers: new AxiosHeaders(result.headers),
+    config,
+    request: {},
+  };
+
+  const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+  if (!validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+  return response;
+};
@@ -0,0 +1,257 @@
+import type { ContentType } from "@/lib/domain";
+
+// In-memory data for the mock backend, persisted to localStorage so created
+// content survives a reload. Remove the "vekku-mock-db" key to reseed.
+
+export interface MockUser {
+  id: string;
+  name: string;
+  email: string;
+  // null for accounts created through a provider until they set one.
+  password: string | null;
+  role: string;
+  verified: boolean;
+  disabled: boolean;
+  createdAt: string;
+  // TOTP secret once two-factor auth is on; the pending one awaits its first code.
+  mfaSecret: string | null;
+  mfaPendingSecret: string | null;
+  recoveryCodes: string[];
+}
+
+export interface MockContent {
+  id: string;
+  userId: string;
+  title: string;
+  body: string;
+  contentType: ContentType;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockTag {
+  id: string;
+  userId: string;
+  name: string;
+  semantic: string | null;
+  createdAt: string;
+}
+
+export interface MockContentTag {
+  id: string;
+  contentId: string;
+  tagId: string;
+}
+
+export interface MockDb {
+  users: MockUser[];
+  contents: MockContent[];
+  tags: MockTag[];
+  contentTags: MockContentTag[];
+  sessions: MockSession[];
+  oauthIdentities: MockOAuthIdentity[];
+  signupTokens: Record<string, MockToken>;
+  passwordResetTokens: Record<string, MockToken>;
+  // Stands in for the browser's cookie jar (httpOnly cookies in cookie session mode).
+  cookies: Record<string, string>;
+}
+
+// One signed-in device. The refresh token rotates on every refresh; revoked
+// sessions are kept so a later refresh can report why it failed.
+export interface MockSession {
+  id: string;
+  userId: string;
+  refreshToken: string;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  revoked: boolean;
+}
+
+// A provider account ("sub" at Google/GitHub) that can sign in as a user.
+export interface MockOAuthIdentity {
+  provider: string;
+  subject: string;
+  userId: string;
+}
+
+// A single-use emailed link (signup verification or password reset).
+export interface MockToken {
+  userId: string;
+  expiresAt: number;
+  used: boolean;
+}
+
+const STORAGE_KEY = "vekku-mock-db";
+// Bump when MockDb changes shape; older snapshots are then discarded and reseeded.
+const VERSION = 9;
+
+export const DEMO_USER = { email: "demo@vekku.dev", password: "password" };
+
+export const NO_MFA = { mfaSecret: null, mfaPendingSecret: null, recoveryCodes: [] } satisfies Partial<MockUser>;
+
+const SEED_TAGS: [string, string][] = [
+  ["React", "React library for building user interfaces with components and hooks"],
+  ["TypeScript", "Typed superset of JavaScript, static types and compiler"],
+  ["Databases", "Storing and querying data, SQL, indexes, transactions"],
+  ["Machine Learning", "Training models, embeddings, neural networks and AI"],
+  ["Productivity", "Habits, focus, time management and getting things done"],
+  ["Cooking", "Recipes, ingredients, kitchen techniques and food"],
+  ["Fitness", "Exercise, training, strength, running and health"],
+  ["Travel", "Trips, destinations, flights and planning journeys"],
+  ["Finance", "Money, budgeting, investing and savings"],
+  ["Design", "Visual design, typography, color and user experience"],
+  ["Game Development", "Making games, engines like Unreal and Unity, gameplay"],
+  ["Music", "Songs, instruments, practice and music theory"],
+  ["Reading List", "Books and articles to read later"],
+  ["Rust", "Rust programming language, ownership and memory safety"],
+  ["DevOps", "Deployment, CI/CD, containers, Docker and Kubernetes"],
+  ["Security", "Authentication, encryption, vulnerabilities and secure coding"],
+  ["Writing", "Blogging, essays, drafting and editing"],
+  ["Photography", "Cameras, lenses, lighting and photo editing"],
+  ["Gardening", "Plants, soil, growing vegetables and flowers"],
+  ["History", "Past events, civilizations and historical figures"],
+  ["Physics", "Mechanics, energy, quantum and relativity"],
+  ["Mathematics", "Algebra, calculus, proofs and statistics"],
+  ["Languages", "Learning foreign languages, vocabulary and grammar"],
+  ["Parenting", "Raising children, family and education"],
+  ["Career", "Jobs, interviews, promotions and professional growth"],
+  ["Networking", "Computer networks, TCP/IP, HTTP and DNS"],
+  ["Testing", "Unit tests, integration tests and test automation"],
+  ["Architecture", "Software architecture, system design and scalability"],
+  ["Mobile", "iOS and Android app development"],
+  ["Podcasts", "Audio shows and episodes worth listening to"],
+];
+
+const SEED_CONTENTS: [string, string, string[]][] = [
+  ["React hooks cheat sheet", "useState, useEffect, useMemo and useCallback explained with examples. Custom hooks let components share stateful logic.", ["React", "TypeScript"]],
+  ["Postgres indexing notes", "B-tree indexes speed up equality and range queries. Use EXPLAIN ANALYZE to check the query plan before adding indexes.", ["Databases"]],
+  ["Sourdough starter routine", "Feed the starter twice a day with equal parts flour and water. Bake when it doubles within six hours.", ["Cooking"]],
+  ["Embeddings for semantic search", "Text is turned into vectors with an embedding model; similar meanings end up close together, so search can match ideas rather than exact words.", ["Machine Learning"]],
+  ["Weekly review checklist", "Clear the inbox, review the calendar, update project lists and pick three priorities for the coming week.", ["Productivity"]],
+  ["5x5 strength program", "Squat, bench and row three times a week, adding weight every session while form stays clean.", ["Fitness"]],
+  ["Kyoto itinerary", "Fushimi Inari at sunrise, Arashiyama bamboo grove, and a day trip to Nara to see the deer.", ["Travel"]],
+  ["Index fund basics", "Low-cost index funds track the market. Automate monthly contributions and rebalance once a year.", ["Finance"]],
+  ["Typography rules of thumb", "Limit line length to about 70 characters, use a clear type scale and keep contrast high for body text.", ["Design"]],
+  ["Unreal Engine blueprint tips", "Keep blueprints small, move heavy logic to C++, and use interfaces to decouple actors in the game.", ["Game Development"]],
+  ["Rust ownership explained", "Every value has a single owner; borrowing lets code read or mutate without taking ownership, checked at compile time.", ["Rust"]],
+  ["Docker compose for local dev", "Define the app, database and cache as services; mount the source directory for hot reload.", ["DevOps"]],
+  ["JWT refresh token rotation", "Short-lived access tokens plus rotating refresh tokens limit the damage of a leaked token. Detect reuse and revoke the session.", ["Security"]],
+  ["Designing a URL shortener", "Hash or counter-based ids, a key-value store, caching hot links and rate limiting abusive clients.", ["Architecture", "Databases"]],
+  ["Testing React components", "Test behaviour, not implementation: render, interact like a user, and assert on what is visible.", ["Testing", "React"]],
+];
+
+const now = Date.now();
+const isoDaysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+const seed = (): MockDb => {
+  const userId = "user-demo";
+  const tags: MockTag[] = SEED_TAGS.map(([name, semantic], i) => ({
+    id: `tag-${i + 1}`,
+    userId,
+    name,
+    semantic,
+    createdAt: isoDaysAgo(60 - i),
+  }));
+  const tagId = (name: string) => tags.find((t) => t.name === name)!.id;
+
+  const contents: MockContent[] = [];
+  const contentTags: MockContentTag[] = [];
+
+  // Enough rows to span several pagination chunks.
+  for (let i = 0; i < 60; i++) {
+    const [title, body, tagNames] = SEED_CONTENTS[i % SEED_CONTENTS.length];
+    const round = Math.floor(i / SEED_CONTENTS.length);
+    const id = `content-${i + 1}`;
+    contents.push({
+      id,
+      userId,
+      title: round === 0 ? title : `${title} (part ${round + 1})`,
+      body,
+      contentType: i % 4 === 0 ? "MARKDOWN" : "PLAIN_TEXT",
+      metadata: null,
+      createdAt: isoDaysAgo(i),
+      updatedAt: isoDaysAgo(i),
+    });
+    tagNames.forEach((name) => contentTags.push({ id: `link-${contentTags.length + 1}`, contentId: id, tagId: tagId(name) }));
+  }
+
+  contents.push({
+    id: "content-youtube",
+    userId,
+    title: "Intro to vector databases",
+    body: "",
+    contentType: "YOUTUBE_VIDEO",
+    metadata: {
+      youtubeUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      userDescription: "Overview of how vector databases store embeddings for similarity search.",
+      transcript: "Today we look at vector databases, embeddings and approximate nearest neighbour search.",
+    },
+    createdAt: isoDaysAgo(0.5),
+    updatedAt: isoDaysAgo(0.5),
+  });
+  contentTags.push({ id: `link-${contentTags.length + 1}`, contentId: "content-youtube", tagId: tagId("Machine Learning") });
+
+  return {
+    users: [
+      // An admin, so the admin area can be explored.
+      { id: userId, name: "Demo User", email: DEMO_USER.email, password: DEMO_USER.password, role: "ADMIN", verified: true, disabled: false, createdAt: isoDaysAgo(90), ...NO_MFA },
+      { id: "user-ana", name: "Ana Costa", email: "ana@vekku.dev", password: "password", role: "USER", verified: true, disabled: false, createdAt: isoDaysAgo(45), ...NO_MFA },
+      { id: "user-ben", name: "Ben Okafor", email: "ben@vekku.dev", password: "password", role: "USER", verified: false, disabled: false, createdAt: isoDaysAgo(2), ...NO_MFA },
+      { id: "user-chen", name: "Chen Wei", email: "chen@vekku.dev", password: "password", role: "USER", verified: true, disabled: true, createdAt: isoDaysAgo(20), ...NO_MFA },
+    ],
+    contents,
+    tags,
+    contentTags,
+    // Other devices, so the sessions page has something to revoke.
+    sessions: [
+      {
+        id: "session-phone",
+        userId,
+        refreshToken: "refresh-seed-phone",
+        userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+        createdAt: isoDaysAgo(12),
+        lastUsedAt: isoDaysAgo(0.2),
+        revoked: false,
+      },
+      {
+        id: "session-laptop",
+        userId,
+        refreshToken: "refresh-seed-laptop",
+        userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36 Edg/124.0",
+        createdAt: isoDaysAgo(30),
+        lastUsedAt: isoDaysAgo(3),
+        revoked: false,
+      },
+    ],
+    oauthIdentities: [],
+    signupTokens: {},
+    passwordResetTokens: {},
+    cookies: {},
+  };
+};
+
+const load = (): MockDb => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (stored?.version === VERSION) return stored.db as MockDb;
+  } catch {
+    // Corrupt snapshot: fall through and reseed.
+  }
+  return seed();
+};
+
+export const db: MockDb = load();
+
+export const saveDb = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: VERSION, db }));
+};
+
+// Pick up what other tabs and popups (e.g. a provider sign-in) saved, so a
+// session created there is valid here too.
+window.addEventListener("storage", (e) => {
+  if (e.key === STORAGE_KEY) Object.assign(db, load());
+});
+
+export const newId = (prefix: string) => `${prefix}-${crypto.randomUUID()}`;
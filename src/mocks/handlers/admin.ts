@@ -0,0 +1,41 @@
+import { db, saveDb, type MockUser } from "@/mocks/db";
+import { revokeSessions, toPublicUser, withUser } from "@/mocks/handlers/auth";
+import { fail, json, type MockRouter } from "@/mocks/router";
+
+const ROLES = ["USER", "ADMIN"];
+
+const toAdminUser = (user: MockUser) => ({
+  ...toPublicUser(user),
+  email: user.email,
+  verified: user.verified,
+  disabled: user.disabled,
+  contentCount: db.contents.filter((c) => c.userId === user.id).length,
+  tagCount: db.tags.filter((t) => t.userId === user.id).length,
+  createdAt: user.createdAt,
+});
+
+export const registerAdminRoutes = (router: MockRouter) => {
+  router.on("GET", "/admin/users", withUser((_req, me) => {
+    if (me.role !== "ADMIN") return fail(403, "Admins only");
+    const users = [...db.users].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return json({ users: users.map(toAdminUser) });
+  }));
+
+  router.on("PATCH", "/admin/users/:id", withUser(({ params, body }, me) => {
+    if (me.role !== "ADMIN") return fail(403, "Admins only");
+    const user = db.users.find((u) => u.id === params.id);
+    if (!user) return fail(404, "User not found");
+    if (user.id === me.id) return fail(400, "You can't change your own role or access");
+
+    if (body.role !== undefined) {
+      if (!ROLES.includes(String(body.role))) return fail(400, "Unknown role", { fieldErrors: { role: "Unknown role" } });
+      user.role = String(body.role);
+    }
+    if (body.disabled !== undefined) {
+      user.disabled = Boolean(body.disabled);
+      if (user.disabled) revokeSessions(user.id);
+    }
+    saveDb();
+    return json({ user: toAdminUser(user) });
+  }));
+};
@@ -0,0 +1,412 @@
+import { db, newId, NO_MFA, saveDb, type MockSession, type MockUser } from "@/mocks/db";
+import { fail, json, type MockRequest, type MockResponse, type MockRouter } from "@/mocks/router";
+import { currentCode, generateSecret, otpauthUri, verifyCode } from "@/mocks/totp";
+
+// Access tokens are unsigned JWTs so the app's expiry scheduling works as it
+// does against the real backend.
+const ACCESS_TOKEN_TTL_S = 10 * 60;
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+const SIGNUP_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const REFRESH_COOKIE = "refresh_token";
+const MFA_TOKEN_TTL_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 8;
+
+// user id -> when the last verification email went out
+const verificationSentAt = new Map<string, number>();
+// Password-checked sign-ins waiting for their second factor: mfa token -> challenge
+const mfaChallenges = new Map<string, { userId: string; expiresAt: number }>();
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const issueAccessToken = (session: MockSession) => {
+  const iat = Math.floor(Date.now() / 1000);
+  const claims = { sub: session.userId, sid: session.id, iat, exp: iat + ACCESS_TOKEN_TTL_S };
+  return `${base64Url({ alg: "none", typ: "JWT" })}.${base64Url(claims)}.mock`;
+};
+
+// Rotates the session's refresh token and hands out a fresh pair.
+const issueTokens = (session: MockSession) => {
+  session.refreshToken = newId("refresh");
+  session.lastUsedAt = new Date().toISOString();
+  saveDb();
+  return { accessToken: issueAccessToken(session), refreshToken: session.refreshToken };
+};
+
+const createSession = (userId: string) => {
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: newId("session"),
+    userId,
+    refreshToken: "",
+    userAgent: navigator.userAgent || null,
+    createdAt: now,
+    lastUsedAt: now,
+    revoked: false,
+  };
+  db.sessions.push(session);
+  return issueTokens(session);
+};
+
+// Creates a session and answers the way the client asked: both tokens in the
+// body, or the refresh token as a cookie.
+const signInResponse = (user: MockUser, mode: unknown): MockResponse => {
+  const { accessToken, refreshToken } = createSession(user.id);
+  if (mode === "cookie") {
+    return { ...json({ accessToken, user: toPublicUser(user) }), cookies: { [REFRESH_COOKIE]: refreshToken } };
+  }
+  return json({ accessToken, refreshToken, user: toPublicUser(user) });
+};
+
+// Signs in, unless the account has 2FA: then the client gets a short-lived
+// challenge to finish at /auth/login/mfa.
+export const beginSignIn = (user: MockUser, mode: unknown): MockResponse => {
+  if (!user.mfaSecret) return signInResponse(user, mode);
+  const mfaToken = newId("mfa");
+  mfaChallenges.set(mfaToken, { userId: user.id, expiresAt: Date.now() + MFA_TOKEN_TTL_MS });
+  currentCode(user.mfaSecret).then((code) => console.info(`[mock api] Authenticator code for ${user.email}: ${code}`));
+  return json({ mfaRequired: true, mfaToken, email: user.email });
+};
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = crypto.randomUUID().replace(/-/g, "");
+    return `${chars.slice(0, 5)}-${chars.slice(5, 10)}`;
+  });
+
+export const revokeSessions = (userId: string, keepSessionId?: string) => {
+  for (const session of db.sessions) {
+    if (session.userId === userId && session.id !== keepSessionId) session.revoked = true;
+  }
+};
+
+const readClaims = (token: string) => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)) as { sub?: string; sid?: string; exp?: number };
+  } catch {
+    return null;
+  }
+};
+
+const sendVerificationEmail = (user: MockUser) => {
+  const token = newId("verify");
+  db.signupTokens[token] = { userId: user.id, expiresAt: Date.now() + SIGNUP_TOKEN_TTL_MS, used: false };
+  verificationSentAt.set(user.id, Date.now());
+  saveDb();
+  // There is no mail server: print the link instead.
+  console.info(`[mock api] Verify ${user.email}: ${window.location.origin}/verify?token=${token}`);
+};
+
+export const toPublicUser = (user: MockUser) => ({
+  id: user.id,
+  name: user.name,
+  role: user.role,
+  hasPassword: user.password !== null,
+});
+
+// Accounts without a password (see MockUser) match nothing.
+export const passwordMatches = (user: MockUser, password: unknown) =>
+  user.password !== null && password === user.password;
+
+// The session behind a request's bearer token, or null when the token is
+// missing, malformed, expired or its session has been revoked.
+const currentSession = (req: MockRequest): MockSession | null => {
+  const token = req.headers.authorization?.replace(/^Bearer /, "");
+  const claims = token ? readClaims(token) : null;
+  if (!claims?.sid || !claims.exp || claims.exp * 1000 < Date.now()) return null;
+  return db.sessions.find((s) => s.id === claims.sid && !s.revoked) ?? null;
+};
+
+// The signed-in user for a request, or null without a valid session.
+export const currentUser = (req: MockRequest): MockUser | null => {
+  const session = currentSession(req);
+  return (session && db.users.find((u) => u.id === session.userId)) ?? null;
+};
+
+// Wraps a handler for an endpoint that requires a signed-in user.
+export const withUser =
+  (handler: (req: MockRequest, user: MockUser) => MockResponse | Promise<MockResponse>) => (req: MockRequest) => {
+    const user = currentUser(req);
+    return user ? handler(req, user) : fail(401, "Unauthorized");
+  };
+
+export const registerAuthRoutes = (router: MockRouter) => {
+  router.on("POST", "/auth/login", ({ body }) => {
+    const user = db.users.find((u) => u.email === String(body.email ?? "").toLowerCase());
+    if (!user || !passwordMatches(user, body.password)) return fail(401, "Invalid email or password");
+    if (!user.verified) return fail(403, "Please verify your email before signing in");
+    if (user.disabled) return fail(403, "This account has been disabled", { code: "ACCOUNT_DISABLED" });
+    return beginSignIn(user, body.session);
+  });
+
+  router.on("POST", "/auth/login/mfa", async ({ body }) => {
+    const mfaToken = String(body.mfaToken ?? "");
+    const challenge = mfaChallenges.get(mfaToken);
+    const user = challenge && db.users.find((u) => u.id === challenge.userId);
+    if (!challenge || !user?.mfaSecret || challenge.expiresAt < Date.now()) {
+      mfaChallenges.delete(mfaToken);
+      return fail(401, "This sign-in has expired. Please enter your password again.", { code: "MFA_TOKEN_EXPIRED" });
+    }
+
+    if (body.recoveryCode !== undefined) {
+      const recoveryCode = String(body.recoveryCode).trim().toLowerCase();
+      if (!user.recoveryCodes.includes(recoveryCode)) {
+        return fail(400, "That recovery code isn't valid", { code: "INVALID_CODE" });
+      }
+      // Each recovery code works once.
+      user.recoveryCodes = user.recoveryCodes.filter((c) => c !== recoveryCode);
+    } else if (!(await verifyCode(user.mfaSecret, String(body.code ?? "")))) {
+      return fail(400, "That code isn't valid", { code: "INVALID_CODE" });
+    }
+
+    mfaChallenges.delete(mfaToken);
+    return signInResponse(user, body.session);
+  });
+
+  // Storage mode sends the refresh token in the body; cookie mode relies on the cookie.
+  router.on("POST", "/auth/refresh", ({ body, cookies }) => {
+    const fromCookie = body.refreshToken === undefined;
+    const refreshToken = fromCookie ? cookies[REFRESH_COOKIE] : String(body.refreshToken);
+    const session = refreshToken ? db.sessions.find((s) => s.refreshToken === refreshToken) : undefined;
+    if (!session) return fail(401, "Invalid refresh token");
+    if (session.revoked) return fail(401, "This session has been signed out", { code: "SESSION_REVOKED" });
+    // Rotate: the old refresh token can't be used again.
+    const tokens = issueTokens(session);
+    if (fromCookie) {
+      return { ...json({ accessToken: tokens.accessToken }), cookies: { [REFRESH_COOKIE]: tokens.refreshToken } };
+    }
+    return json(tokens);
+  });
+
+  router.on("POST", "/auth/logout", ({ body, cookies }) => {
+    const refreshToken = body.refreshToken === undefined ? cookies[REFRESH_COOKIE] : String(body.refreshToken);
+    const session = db.sessions.find((s) => s.refreshToken === refreshToken);
+    if (session) {
+      session.revoked = true;
+      saveDb();
+    }
+    return { ...json({ message: "Signed out" }), cookies: { [REFRESH_COOKIE]: null } };
+  });
+
+  router.on("GET", "/auth/me", (req) => {
+    const user = currentUser(req);
+    return user ? json({ user: toPublicUser(user) }) : fail(401, "Unauthorized");
+  });
+
+  router.on("PATCH", "/auth/me", withUser(({ body }, user) => {
+    const name = String(body.name ?? "").trim();
+    if (!name) return fail(400, "Name is required", { fieldErrors: { name: "Name is required" } });
+    user.name = name;
+    saveDb();
+    return json({ user: toPublicUser(user) });
+  }));
+
+  router.on("POST", "/auth/password/change", withUser(({ body }, user) => {
+    if (!passwordMatches(user, body.currentPassword)) {
+      return fail(400, "Current password is incorrect", { fieldErrors: { currentPassword: "Incorrect password" } });
+    }
+    const newPassword = String(body.newPassword ?? "");
+    if (newPassword.length < 6) {
+      return fail(400, "Password is too short", { fieldErrors: { newPassword: "Must be at least 6 characters" } });
+    }
+    user.password = newPassword;
+    saveDb();
+    return json({ message: "Password changed" });
+  }));
+
+  // For accounts created through a provider, which have no password to change.
+  router.on("POST", "/auth/password/set", withUser(({ body }, user) => {
+    if (user.password !== null) return fail(409, "This account already has a password", { code: "HAS_PASSWORD" });
+    const newPassword = String(body.newPassword ?? "");
+    if (newPassword.length < 6) {
+      return fail(400, "Password is too short", { fieldErrors: { newPassword: "Must be at least 6 characters" } });
+    }
+    user.password = newPassword;
+    saveDb();
+    return json({ message: "Password set" });
+  }));
+
+  router.on("DELETE", "/auth/me", withUser(({ body }, user) => {
+    if (!passwordMatches(user, body.password)) {
+      return fail(400, "Password is incorrect", { fieldErrors: { password: "Incorrect password" } });
+    }
+    const contentIds = new Set(db.contents.filter((c) => c.userId === user.id).map((c) => c.id));
+    db.users = db.users.filter((u) => u.id !== user.id);
+    db.contents = db.contents.filter((c) => c.userId !== user.id);
+    db.tags = db.tags.filter((t) => t.userId !== user.id);
+    db.contentTags = db.contentTags.filter((link) => !contentIds.has(link.contentId));
+    for (const tokens of [db.signupTokens, db.passwordResetTokens]) {
+      for (const [token, { userId }] of Object.entries(tokens)) {
+        if (userId === user.id) delete tokens[token];
+      }
+    }
+    db.sessions = db.sessions.filter((s) => s.userId !== user.id);
+    db.oauthIdentities = db.oauthIdentities.filter((identity) => identity.userId !== user.id);
+    saveDb();
+    return json({ message: "Account deleted" });
+  }));
+
+  router.on("GET", "/auth/mfa", withUser((_, user) =>
+    json({ enabled: !!user.mfaSecret, recoveryCodesRemaining: user.recoveryCodes.length })
+  ));
+
+  router.on("POST", "/auth/mfa/setup", withUser(async (_, user) => {
+    if (user.mfaSecret) return fail(409, "Two-factor authentication is already on");
+    user.mfaPendingSecret = generateSecret();
+    saveDb();
+    console.info(`[mock api] Authenticator code for ${user.email}: ${await currentCode(user.mfaPendingSecret)}`);
+    return json({ secret: user.mfaPendingSecret, otpauthUri: otpauthUri(user.mfaPendingSecret, user.email) });
+  }));
+
+  router.on("POST", "/auth/mfa/enable", withUser(async ({ body }, user) => {
+    if (!user.mfaPendingSecret) return fail(400, "Start two-factor setup first");
+    if (!(await verifyCode(user.mfaPendingSecret, String(body.code ?? "")))) {
+      return fail(400, "That code isn't valid", { code: "INVALID_CODE", fieldErrors: { code: "Invalid code" } });
+    }
+    user.mfaSecret = user.mfaPendingSecret;
+    user.mfaPendingSecret = null;
+    user.recoveryCodes = generateRecoveryCodes();
+    saveDb();
+    return json({ recoveryCodes: user.recoveryCodes });
+  }));
+
+  router.on("POST", "/auth/mfa/disable", withUser(({ body }, user) => {
+    if (!passwordMatches(user, body.password)) {
+      return fail(400, "Password is incorrect", { fieldErrors: { password: "Incorrect password" } });
+    }
+    Object.assign(user, NO_MFA);
+    saveDb();
+    return json({ message: "Two-factor authentication turned off" });
+  }));
+
+  router.on("GET", "/auth/sessions", (req) => {
+    const current = currentSession(req);
+    if (!current) return fail(401, "Unauthorized");
+    const sessions = db.sessions
+      .filter((s) => s.userId === current.userId && !s.revoked)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .map(({ id, userAgent, createdAt, lastUsedAt }) => ({
+        id,
+        userAgent,
+        createdAt,
+        lastUsedAt,
+        current: id === current.id,
+      }));
+    return json({ sessions });
+  });
+
+  router.on("DELETE", "/auth/sessions/others", (req) => {
+    const current = currentSession(req);
+    if (!current) return fail(401, "Unauthorized");
+    revokeSessions(current.userId, current.id);
+    saveDb();
+    return json({ message: "Signed out of all other sessions" });
+  });
+
+  router.on("DELETE", "/auth/sessions/:id", (req) => {
+    const current = currentSession(req);
+    if (!current) return fail(401, "Unauthorized");
+    const session = db.sessions.find((s) => s.id === req.params.id && s.userId === current.userId && !s.revoked);
+    if (!session) return fail(404, "Session not found");
+    session.revoked = true;
+    saveDb();
+    return json({ message: "Session revoked" });
+  });
+
+  router.on("POST", "/auth/signup/request", ({ body }) => {
+    const email = String(body.email ?? "").toLowerCase();
+    const password = String(body.password ?? "");
+    const name = String(body.name ?? "");
+    if (!email || !password || !name) return fail(400, "Name, email and password are required");
+    if (password.length < 6) {
+      return fail(400, "Password is too short", { fieldErrors: { password: "Must be at least 6 characters" } });
+    }
+    if (db.users.some((u) => u.email === email && u.verified)) {
+      return fail(409, "Email already registered", { fieldErrors: { email: "An account with this email already exists" } });
+    }
+
+    const user: MockUser = {
+      id: newId("user"),
+      name,
+      email,
+      password,
+      role: "USER",
+      verified: false,
+      disabled: false,
+      createdAt: new Date().toISOString(),
+      ...NO_MFA,
+    };
+    db.users = db.users.filter((u) => u.email !== email).concat(user);
+    sendVerificationEmail(user);
+    return json({ message: "Verification email sent" });
+  });
+
+  router.on("POST", "/auth/signup/resend", ({ body }) => {
+    const email = String(body.email ?? "").toLowerCase();
+    if (!email) return fail(400, "Email is required");
+    const user = db.users.find((u) => u.email === email);
+    if (user?.verified) return fail(409, "This email is already verified", { code: "ALREADY_VERIFIED" });
+    if (user) {
+      const waitMs = (verificationSentAt.get(user.id) ?? 0) + RESEND_COOLDOWN_MS - Date.now();
+      if (waitMs > 0) {
+        const retryAfter = String(Math.ceil(waitMs / 1000));
+        return { ...fail(429, "Please wait before requesting another email"), headers: { "retry-after": retryAfter } };
+      }
+      sendVerificationEmail(user);
+    }
+    // Unknown addresses get the same answer as pending ones.
+    return json({ message: "If the account is pending verification, a new link has been sent" });
+  });
+
+  router.on("GET", "/auth/signup/verify", ({ query }) => {
+    const signup = db.signupTokens[query.get("token") ?? ""];
+    const user = signup && db.users.find((u) => u.id === signup.userId);
+    if (!signup || !user) return fail(400, "Invalid verification token", { code: "TOKEN_INVALID" });
+    if (signup.used || user.verified) {
+      return fail(409, "This account is already verified", { code: "ALREADY_VERIFIED" });
+    }
+    if (signup.expiresAt < Date.now()) {
+      return fail(410, "This verification link has expired", { code: "TOKEN_EXPIRED" });
+    }
+    user.verified = true;
+    signup.used = true;
+    saveDb();
+    return json({ message: "Email verified" });
+  });
+
+  router.on("POST", "/auth/password/forgot", ({ body }) => {
+    const email = String(body.email ?? "").toLowerCase();
+    if (!email) return fail(400, "Email is required");
+    const user = db.users.find((u) => u.email === email);
+    // Same answer whether or not the account exists.
+    if (user) {
+      const token = newId("reset");
+      db.passwordResetTokens[token] = { userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL_MS, used: false };
+      saveDb();
+      console.info(`[mock api] Reset password for ${email}: ${window.location.origin}/reset-password?token=${token}`);
+    }
+    return json({ message: "If the account exists, a reset link has been sent" });
+  });
+
+  router.on("POST", "/auth/password/reset", ({ body }) => {
+    const reset = db.passwordResetTokens[String(body.token ?? "")];
+    const user = reset && db.users.find((u) => u.id === reset.userId);
+    if (!reset || !user) return fail(400, "Invalid reset token", { code: "TOKEN_INVALID" });
+    if (reset.used) return fail(410, "This reset link has already been used", { code: "TOKEN_USED" });
+    if (reset.expiresAt < Date.now()) return fail(410, "This reset link has expired", { code: "TOKEN_EXPIRED" });
+
+    const password = String(body.password ?? "");
+    if (password.length < 6) {
+      return fail(400, "Password is too short", { fieldErrors: { password: "Must be at least 6 characters" } });
+    }
+
+    user.password = password;
+    reset.used = true;
+    // Sign out everywhere.
+    revokeSessions(user.id);
+    saveDb();
+    return json({ message: "Password updated" });
+  });
+};
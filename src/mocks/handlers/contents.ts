@@ -0,0 +1,210 @@
+import { db, newId, saveDb, type MockContent, type MockUser } from "@/mocks/db";
+import { withUser } from "@/mocks/handlers/auth";
+import { paginateChunked } from "@/mocks/pagination";
+import { fail, json, type MockRouter } from "@/mocks/router";
+import { similarity } from "@/mocks/text";
+
+const toWire = ({ id, title, body, contentType, metadata, createdAt, updatedAt }: MockContent) => ({
+  id,
+  title,
+  body,
+  contentType,
+  metadata,
+  createdAt,
+  updatedAt,
+});
+
+const contentsOf = (user: MockUser) =>
+  db.contents
+    .filter((c) => c.userId === user.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const findContent = (user: MockUser, id: string) => db.contents.find((c) => c.id === id && c.userId === user.id);
+
+const tagIdsOf = (contentId: string) => db.contentTags.filter((l) => l.contentId === contentId).map((l) => l.tagId);
+
+// Everything a search should consider: title, body, YouTube notes and tag names.
+export const searchableText = (content: MockContent) => {
+  const metadata = content.metadata ?? {};
+  const tagNames = tagIdsOf(content.id).map((id) => db.tags.find((t) => t.id === id)?.name ?? "");
+  return [content.title, content.body, metadata.userDescription, metadata.transcript, ...tagNames]
+    .filter((part) => typeof part === "string")
+    .join(" ");
+};
+
+const linkTags = (user: MockUser, contentId: string, tagIds: unknown) => {
+  if (!Array.isArray(tagIds)) return;
+  const existing = tagIdsOf(contentId);
+  for (const tagId of tagIds) {
+    const owned = db.tags.some((t) => t.id === tagId && t.userId === user.id);
+    if (owned && !existing.includes(tagId)) {
+      db.contentTags.push({ id: newId("link"), contentId, tagId });
+    }
+  }
+};
+
+const deleteContents = (ids: string[]) => {
+  db.contents = db.contents.filter((c) => !ids.includes(c.id));
+  db.contentTags = db.contentTags.filter((l) => !ids.includes(l.contentId));
+};
+
+const MAX_TITLE_LENGTH = 200;
+
+// { title: message } when the title is unusable, otherwise {}.
+const titleProblem = (title: unknown): { title?: string } => {
+  const value = typeof title === "string" ? title.trim() : "";
+  if (!value) return { title: "Title is required" };
+  if (value.length > MAX_TITLE_LENGTH) return { title: `Titles can be at most ${MAX_TITLE_LENGTH} characters` };
+  return {};
+};
+
+export const registerContentRoutes = (router: MockRouter) => {
+  router.on("GET", "/content", withUser(({ query }, user) => json(paginateChunked(contentsOf(user).map(toWire), query))));
+
+  router.on("GET", "/content/by-tags", withUser(({ query }, user) => {
+    const tagIds = (query.get("tagIds") ?? "").split(",").filter(Boolean);
+    const matching = contentsOf(user).filter((c) => tagIdsOf(c.id).some((id) => tagIds.includes(id)));
+    return json(paginateChunked(matching.map(toWire), query));
+  }));
+
+  router.on("GET", "/content/search", withUser(({ query }, user) => {
+    const q = query.get("q") ?? "";
+    const limit = Math.max(1, Number(query.get("limit")) || 20);
+    const offset = Math.max(0, Number(query.get("offset")) || 0);
+    const ranked = contentsOf(user)
+      .map((content) => ({ content, score: similarity(q, searchableText(content)) }))
+      .filter(({ score }) => score > 0)
+      // Ties break on recency, then id, so pages never overlap or skip rows.
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.content.createdAt.localeCompare(a.content.createdAt) ||
+          a.content.id.localeCompare(b.content.id)
+      );
+    return json(ranked.slice(offset, offset + limit).map(({ content, score }) => ({ ...toWire(content), score })));
+  }));
+
+  router.on("POST", "/content", withUser(({ body }, user) => {
+    const fieldErrors = {
+      ...titleProblem(body.title),
+      ...(typeof body.content === "string" && body.content.trim() ? {} : { content: "Content is required" }),
+    };
+    if (Object.keys(fieldErrors).length > 0) return fail(400, "Please fix the highlighted fields", { fieldErrors });
+    const timestamp = new Date().toISOString();
+    const content: MockContent = {
+      id: newId("content"),
+      userId: user.id,
+      title: String(body.title),
+      body: String(body.content),
+      contentType: body.contentType === "MARKDOWN" ? "MARKDOWN" : "PLAIN_TEXT",
+      metadata: null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    db.contents.push(content);
+    linkTags(user, content.id, body.tagIds);
+    saveDb();
+    return json(toWire(content), 201);
+  }));
+
+  router.on("POST", "/content/youtube", withUser(({ body }, user) => {
+    const fieldErrors = {
+      ...titleProblem(body.title),
+      ...(/(?:v=|youtu\.be\/)([\w-]{11})/.test(String(body.url ?? "")) ? {} : { url: "Not a valid YouTube URL" }),
+    };
+    if (Object.keys(fieldErrors).length > 0) return fail(400, "Please fix the highlighted fields", { fieldErrors });
+    const timestamp = new Date().toISOString();
+    const content: MockContent = {
+      id: newId("content"),
+      userId: user.id,
+      title: String(body.title),
+      body: "",
+      contentType: "YOUTUBE_VIDEO",
+      metadata: {
+        youtubeUrl: String(body.url),
+        userDescription: body.description ? String(body.description) : null,
+        transcript: body.transcript ? String(body.transcript) : null,
+      },
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    db.contents.push(content);
+    linkTags(user, content.id, body.tagIds);
+    saveDb();
+    return json(toWire(content), 201);
+  }));
+
+  router.on("DELETE", "/content/bulk", withUser(({ body }, user) => {
+    const ids = body.ids === "*" ? contentsOf(user).map((c) => c.id) : body.ids;
+    if (!Array.isArray(ids)) return fail(400, "ids must be an array or \"*\"");
+    deleteContents(ids.filter((id) => findContent(user, id)));
+    saveDb();
+    return json({ message: "Deleted" });
+  }));
+
+  router.on("GET", "/content/:id", withUser(({ params }, user) => {
+    const content = findContent(user, params.id);
+    return content ? json(toWire(content)) : fail(404, "Content not found");
+  }));
+
+  router.on("PATCH", "/content/:id", withUser(({ params, body }, user) => {
+    const content = findContent(user, params.id);
+    if (!content) return fail(404, "Content not found");
+    if (body.title !== undefined) {
+      const fieldErrors = titleProblem(body.title);
+      if (fieldErrors.title) return fail(400, fieldErrors.title, { fieldErrors });
+      content.title = String(body.title).trim();
+    }
+    if (typeof body.content === "string") content.body = body.content;
+    if (body.contentType === "PLAIN_TEXT" || body.contentType === "MARKDOWN") content.contentType = body.contentType;
+    content.updatedAt = new Date().toISOString();
+    saveDb();
+    return json(toWire(content));
+  }));
+
+  router.on("DELETE", "/content/:id", withUser(({ params }, user) => {
+    if (!findContent(user, params.id)) return fail(404, "Content not found");
+    deleteContents([params.id]);
+    saveDb();
+    return json({ message: "Deleted" });
+  }));
+
+  router.on("GET", "/content/:id/tags", withUser(({ params }, user) => {
+    if (!findContent(user, params.id)) return fail(404, "Content not found");
+    const rows = db.contentTags
+      .filter((l) => l.contentId === params.id)
+      .map((l) => ({ id: l.id, tagId: l.tagId, name: db.tags.find((t) => t.id === l.tagId)?.name ?? "" }));
+    return json({ data: rows });
+  }));
+
+  router.on("POST", "/content/:id/tags", withUser(({ params, body }, user) => {
+    if (!findContent(user, params.id)) return fail(404, "Content not found");
+    linkTags(user, params.id, body.tagIds);
+    saveDb();
+    return json({ message: "Tags added" });
+  }));
+
+  router.on("DELETE", "/content/:id/tags", withUser(({ params, body }, user) => {
+    if (!findContent(user, params.id)) return fail(404, "Content not found");
+    const tagIds = Array.isArray(body.tagIds) ? body.tagIds : [];
+    db.contentTags = db.contentTags.filter((l) => l.contentId !== params.id || !tagIds.includes(l.tagId));
+    saveDb();
+    return json({ message: "Tags removed" });
+  }));
+
+  // Turns suggested keywords into tags (reusing existing ones by name) and attaches them.
+  router.on("POST", "/content/:id/potential", withUser(({ params, body }, user) => {
+    if (!findContent(user, params.id)) return fail(404, "Content not found");
+    const keywords = Array.isArray(body.keywords) ? body.keywords.map(String) : [];
+    const tagIds = keywords.map((keyword) => {
+      const existing = db.tags.find((t) => t.userId === user.id && t.name.toLowerCase() === keyword.toLowerCase());
+      if (existing) return existing.id;
+      const tag = { id: newId("tag"), userId: user.id, name: keyword, semantic: keyword, createdAt: new Date().toISOString() };
+      db.tags.push(tag);
+      return tag.id;
+    });
+    linkTags(user, params.id, tagIds);
+    saveDb();
+    return json({ message: "Keywords added" });
+  }));
+};
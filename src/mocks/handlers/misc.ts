@@ -0,0 +1,16 @@
+import { db } from "@/mocks/db";
+import { withUser } from "@/mocks/handlers/auth";
+import { fail, json, type MockRouter } from "@/mocks/router";
+
+export const registerMiscRoutes = (router: MockRouter) => {
+  router.on("GET", "/stats", withUser((_req, user) => json({
+    totalContents: db.contents.filter((c) => c.userId === user.id).length,
+    totalTags: db.tags.filter((t) => t.userId === user.id).length,
+  })));
+
+  router.on("POST", "/youtube/info", withUser(({ body }) => {
+    const url = String(body.url ?? "");
+    const videoId = /(?:v=|youtu\.be\/)([\w-]{6,})/.exec(url)?.[1];
+    return videoId ? json({ title: `YouTube video ${videoId}` }) : fail(400, "Not a YouTube URL");
+  }));
+};
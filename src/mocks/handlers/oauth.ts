@@ -0,0 +1,101 @@
+import { db, DEMO_USER, newId, NO_MFA, saveDb, type MockUser } from "@/mocks/db";
+import { beginSignIn, passwordMatches } from "@/mocks/handlers/auth";
+import { fail, json, type MockRouter } from "@/mocks/router";
+
+// There is no real provider: "authorizing" immediately redirects back with a
+// code for a fixed profile. Google signs in as the demo user's email, so it
+// exercises account linking; GitHub creates a new account.
+const PROFILES: Record<string, { subject: string; email: string; name: string }> = {
+  google: { subject: "google-1001", email: DEMO_USER.email, name: "Demo User" },
+  github: { subject: "github-2002", email: "octo@github.example", name: "Octo Cat" },
+};
+
+const LINK_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// code -> the provider and redirect it was issued for
+const authorizationCodes = new Map<string, { provider: string; redirectUri: string }>();
+// link token -> the provider identity waiting for the account's password
+const pendingLinks = new Map<string, { provider: string; subject: string; userId: string; expiresAt: number }>();
+
+const signInOrBlock = (user: MockUser, mode: unknown) =>
+  user.disabled ? fail(403, "This account has been disabled", { code: "ACCOUNT_DISABLED" }) : beginSignIn(user, mode);
+
+export const registerOAuthRoutes = (router: MockRouter) => {
+  router.on("GET", "/auth/oauth/:provider/authorize", ({ params, query }) => {
+    const redirectUri = query.get("redirectUri");
+    const state = query.get("state");
+    if (!PROFILES[params.provider]) return fail(404, "Unknown provider");
+    if (!redirectUri || !state) return fail(400, "redirectUri and state are required");
+
+    const code = newId("code");
+    authorizationCodes.set(code, { provider: params.provider, redirectUri });
+    const url = new URL(redirectUri);
+    url.search = new URLSearchParams({ code, state }).toString();
+    return json({ url: url.toString() });
+  });
+
+  router.on("POST", "/auth/oauth/:provider/callback", ({ params, body }) => {
+    const code = String(body.code ?? "");
+    const issued = authorizationCodes.get(code);
+    // Codes are single-use and bound to the redirect they were issued for.
+    authorizationCodes.delete(code);
+    if (!issued || issued.provider !== params.provider || issued.redirectUri !== body.redirectUri) {
+      return fail(400, "This sign-in link has expired. Please try again.", { code: "INVALID_CODE" });
+    }
+
+    const profile = PROFILES[params.provider];
+    const identity = db.oauthIdentities.find((i) => i.provider === params.provider && i.subject === profile.subject);
+    const linked = identity && db.users.find((u) => u.id === identity.userId);
+    if (linked) return signInOrBlock(linked, body.session);
+
+    const existing = db.users.find((u) => u.email === profile.email);
+    if (existing) {
+      if (existing.disabled) return fail(403, "This account has been disabled", { code: "ACCOUNT_DISABLED" });
+      const linkToken = newId("link");
+      pendingLinks.set(linkToken, {
+        provider: params.provider,
+        subject: profile.subject,
+        userId: existing.id,
+        expiresAt: Date.now() + LINK_TOKEN_TTL_MS,
+      });
+      return json({ linkRequired: true, linkToken, email: existing.email });
+    }
+
+    // The provider has verified the email, so the new account is active straight away.
+    const user: MockUser = {
+      id: newId("user"),
+      name: profile.name,
+      email: profile.email,
+      password: null,
+      role: "USER",
+      verified: true,
+      disabled: false,
+      createdAt: new Date().toISOString(),
+      ...NO_MFA,
+    };
+    db.users.push(user);
+    db.oauthIdentities.push({ provider: params.provider, subject: profile.subject, userId: user.id });
+    saveDb();
+    return beginSignIn(user, body.session);
+  });
+
+  router.on("POST", "/auth/oauth/link", ({ body }) => {
+    const linkToken = String(body.linkToken ?? "");
+    const link = pendingLinks.get(linkToken);
+    const user = link && db.users.find((u) => u.id === link.userId);
+    if (!link || !user || link.expiresAt < Date.now()) {
+      pendingLinks.delete(linkToken);
+      return fail(401, "This sign-in has expired. Please start again.", { code: "LINK_TOKEN_EXPIRED" });
+    }
+    if (!passwordMatches(user, body.password)) {
+      return fail(400, "Password is incorrect", { fieldErrors: { password: "Incorrect password" } });
+    }
+
+    pendingLinks.delete(linkToken);
+    db.oauthIdentities.push({ provider: link.provider, subject: link.subject, userId: user.id });
+    // Proving control of the inbox through the provider counts as verification.
+    user.verified = true;
+    saveDb();
+    return signInOrBlock(user, body.session);
+  });
+};
@@ -0,0 +1,67 @@
+import { db, type MockUser } from "@/mocks/db";
+import { searchableText } from "@/mocks/handlers/contents";
+import { withUser } from "@/mocks/handlers/auth";
+import { fail, json, type MockRequest, type MockResponse, type MockRouter } from "@/mocks/router";
+import { extractKeywords, similarity } from "@/mocks/text";
+
+// The AI endpoints are rate limited like the real ones, so the countdown and
+// auto-retry UI can be exercised: RATE_LIMIT requests per window per user.
+const RATE_LIMIT = 5;
+const RATE_WINDOW_MS = 30_000;
+const recentCalls = new Map<string, number[]>();
+
+const rateLimited =
+  (handler: (req: MockRequest, user: MockUser) => MockResponse) => (req: MockRequest, user: MockUser) => {
+    const now = Date.now();
+    const calls = (recentCalls.get(user.id) ?? []).filter((t) => now - t < RATE_WINDOW_MS);
+    if (calls.length >= RATE_LIMIT) {
+      const retryAfter = Math.ceil((calls[0] + RATE_WINDOW_MS - now) / 1000);
+      return { ...fail(429, "Too many requests"), headers: { "retry-after": String(retryAfter) } };
+    }
+    recentCalls.set(user.id, [...calls, now]);
+    return handler(req, user);
+  };
+
+const suggest = (user: MockUser, text: string, excludeTagIds: string[] = []) => {
+  const existing = db.tags
+    .filter((t) => t.userId === user.id && !excludeTagIds.includes(t.id))
+    .map((t) => ({
+      tagId: t.id,
+      name: t.name,
+      // A tag whose name appears in the text is a much stronger match than one
+      // that only shares a word with its description.
+      score: Math.max(similarity(t.name, text), similarity(t.semantic ?? "", text) * 0.8),
+    }))
+    .filter((s) => s.score >= 0.15)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 8)
+    .map((s) => ({ ...s, score: Math.round((0.4 + s.score * 0.55) * 100) / 100 }));
+
+  const tagNames = db.tags.filter((t) => t.userId === user.id).map((t) => t.name.toLowerCase());
+  const potential = extractKeywords(text).filter((k) => !tagNames.includes(k.keyword.toLowerCase()));
+
+  return { existing, potential };
+};
+
+const suggestForContent = (user: MockUser, contentId: string) => {
+  const content = db.contents.find((c) => c.id === contentId && c.userId === user.id);
+  if (!content) return fail(404, "Content not found");
+  const linked = db.contentTags.filter((l) => l.contentId === contentId).map((l) => l.tagId);
+  return json(suggest(user, searchableText(content), linked));
+};
+
+export const registerSuggestionRoutes = (router: MockRouter) => {
+  router.on("GET", "/suggestions/content/:id", withUser(({ params }, user) => suggestForContent(user, params.id)));
+
+  router.on(
+    "POST",
+    "/suggestions/content/:id/regenerate",
+    withUser(rateLimited(({ params }, user) => suggestForContent(user, params.id)))
+  );
+
+  router.on(
+    "POST",
+    "/suggestions/analyze",
+    withUser(rateLimited(({ body }, user) => json(suggest(user, String(body.text ?? "")))))
+  );
+};
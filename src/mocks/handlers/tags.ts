@@ -0,0 +1,101 @@
+import { db, newId, saveDb, type MockTag, type MockUser } from "@/mocks/db";
+import { withUser } from "@/mocks/handlers/auth";
+import { paginateChunked } from "@/mocks/pagination";
+import { fail, json, type MockRouter } from "@/mocks/router";
+
+const toWire = ({ id, name, semantic, createdAt }: MockTag) => ({
+  id,
+  name,
+  semantic,
+  createdAt,
+  _count: { contents: db.contentTags.filter((l) => l.tagId === id).length },
+});
+
+const tagsOf = (user: MockUser) =>
+  db.tags.filter((t) => t.userId === user.id).sort((a, b) => a.name.localeCompare(b.name));
+
+const findTag = (user: MockUser, id: string) => db.tags.find((t) => t.id === id && t.userId === user.id);
+
+const deleteTags = (ids: string[]) => {
+  db.tags = db.tags.filter((t) => !ids.includes(t.id));
+  db.contentTags = db.contentTags.filter((l) => !ids.includes(l.tagId));
+};
+
+const MAX_NAME_LENGTH = 64;
+
+const tagNameProblem = (name: string) => {
+  if (!name.trim()) return "Tag name is required";
+  if (name.trim().length > MAX_NAME_LENGTH) return `Tag names can be at most ${MAX_NAME_LENGTH} characters`;
+  return null;
+};
+
+export const registerTagRoutes = (router: MockRouter) => {
+  router.on("GET", "/tag", withUser(({ query }, user) => {
+    const q = (query.get("q") ?? "").toLowerCase();
+    const tags = q
+      ? tagsOf(user).filter((t) => t.name.toLowerCase().includes(q) || t.semantic?.toLowerCase().includes(q))
+      : tagsOf(user);
+    return json(paginateChunked(tags.map(toWire), query));
+  }));
+
+  // Creates tags, returning the existing tag instead when the name is taken.
+  router.on("POST", "/tag", withUser(({ body }, user) => {
+    if (!Array.isArray(body.tags) || body.tags.length === 0) return fail(400, "tags must be a non-empty array");
+    const inputs = body.tags as { name?: unknown; semantic?: unknown }[];
+    // Reported per item, the way the backend's validator does for arrays.
+    const errors = inputs.flatMap((input, i) => {
+      const message = tagNameProblem(String(input.name ?? ""));
+      return message ? [{ path: ["tags", i, "name"], message }] : [];
+    });
+    if (errors.length > 0) return fail(400, errors[0].message, { errors });
+
+    const created = inputs.map((input) => {
+      const name = String(input.name ?? "").trim();
+      const existing = tagsOf(user).find((t) => t.name.toLowerCase() === name.toLowerCase());
+      if (existing) return existing;
+      const tag: MockTag = {
+        id: newId("tag"),
+        userId: user.id,
+        name,
+        semantic: typeof input.semantic === "string" ? input.semantic : null,
+        createdAt: new Date().toISOString(),
+      };
+      db.tags.push(tag);
+      return tag;
+    });
+    saveDb();
+    return json(created.map(toWire), 201);
+  }));
+
+  router.on("DELETE", "/tag/bulk", withUser(({ body }, user) => {
+    const ids = body.ids === "*" ? tagsOf(user).map((t) => t.id) : body.ids;
+    if (!Array.isArray(ids)) return fail(400, "ids must be an array or \"*\"");
+    deleteTags(ids.filter((id) => findTag(user, id)));
+    saveDb();
+    return json({ message: "Deleted" });
+  }));
+
+  router.on("PATCH", "/tag/:id", withUser(({ params, body }, user) => {
+    const tag = findTag(user, params.id);
+    if (!tag) return fail(404, "Tag not found");
+    if (typeof body.name === "string") {
+      const name = body.name.trim();
+      const problem = tagNameProblem(name);
+      if (problem) return fail(400, problem, { fieldErrors: { name: problem } });
+      if (tagsOf(user).some((t) => t.id !== tag.id && t.name.toLowerCase() === name.toLowerCase())) {
+        return fail(409, "A tag with this name already exists", { fieldErrors: { name: "You already have a tag with this name" } });
+      }
+      tag.name = name;
+    }
+    if (typeof body.semantic === "string") tag.semantic = body.semantic;
+    saveDb();
+    return json(toWire(tag));
+  }));
+
+  router.on("DELETE", "/tag/:id", withUser(({ params }, user) => {
+    if (!findTag(user, params.id)) return fail(404, "Tag not found");
+    deleteTags([params.id]);
+    saveDb();
+    return json({ message: "Deleted" });
+  }));
+};
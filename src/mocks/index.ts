@@ -0,0 +1,12 @@
+import axios from "axios";
+import api from "@/lib/api";
+import { DEMO_USER } from "@/mocks/db";
+import { mockAdapter } from "@/mocks/adapter";
+
+// Routes every request, from the shared api instance and from plain axios
+// calls such as the token refresh, to the in-browser mock backend.
+export const installMockBackend = () => {
+  axios.defaults.adapter = mockAdapter;
+  api.defaults.adapter = mockAdapter;
+  console.info(`[mock api] Enabled. Sign in as ${DEMO_USER.email} / ${DEMO_USER.password}`);
+};
@@ -0,0 +1,25 @@
+// Mirrors the backend's chunked pagination: results are cut into chunks of
+// CHUNK_SIZE rows, `offset`/`limit` page within the current chunk and
+// `nextChunkId` (the id of the first row of the next chunk) moves on.
+
+export const CHUNK_SIZE = 25;
+
+export const paginateChunked = <T extends { id: string }>(items: T[], query: URLSearchParams) => {
+  const limit = Math.max(1, Number(query.get("limit")) || 20);
+  const offset = Math.max(0, Number(query.get("offset")) || 0);
+  const chunkId = query.get("chunkId");
+
+  const start = chunkId ? Math.max(0, items.findIndex((item) => item.id === chunkId)) : 0;
+  const chunk = items.slice(start, start + CHUNK_SIZE);
+
+  return {
+    data: chunk.slice(offset, offset + limit),
+    metadata: {
+      nextChunkId: items[start + CHUNK_SIZE]?.id ?? null,
+      chunkSize: CHUNK_SIZE,
+      chunkTotalItems: chunk.length,
+      limit,
+      offset,
+    },
+  };
+};
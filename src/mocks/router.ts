@@ -0,0 +1,64 @@
+// Minimal request router for the mock backend. Handlers receive the parsed
+// request and return a status + JSON body, just like the real API would.
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+  // Cookies the browser would attach (only for withCredentials requests).
+  cookies: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+  // Cookies to set, or clear with null (Set-Cookie, which axios can't see).
+  cookies?: Record<string, string | null>;
+}
+
+export type MockHandler = (req: MockRequest) => MockResponse | Promise<MockResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+export const json = (data: unknown, status: number = 200): MockResponse => ({ status, data });
+
+export const fail = (status: number, error: string, extra: Record<string, unknown> = {}): MockResponse => ({
+  status,
+  data: { error, ...extra },
+});
+
+export class MockRouter {
+  private routes: Route[] = [];
+
+  // Paths use ":name" segments, e.g. "/content/:id/tags". Routes are matched
+  // in registration order, so register "/content/search" before "/content/:id".
+  on(method: string, path: string, handler: MockHandler) {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return "([^/]+)";
+    });
+    this.routes.push({ method: method.toUpperCase(), pattern: new RegExp(`^${source}$`), keys, handler });
+    return this;
+  }
+
+  match(method: string, path: string) {
+    for (const route of this.routes) {
+      if (route.method !== method.toUpperCase()) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+      return { handler: route.handler, params };
+    }
+    return null;
+  }
+}
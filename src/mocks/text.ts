@@ -0,0 +1,58 @@
+// Cheap stand-ins for the backend's embedding-based features: overlap of
+// crudely stemmed words (so "index" finds "indexing") approximates semantic
+// similarity well enough for demos.
+
+const STOP_WORDS = new Set(
+  ("a an and are as at be but by for from has have how in into is it its of on or so than that the their then " +
+    "there these this to was were what when where which while who will with you your can do does not more most " +
+    "about after before every each like let lets just only also use used using make makes rather")
+    .split(" ")
+);
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+
+const SUFFIXES: [string, string][] = [["ies", "y"], ["ing", ""], ["ed", ""], ["es", ""], ["s", ""]];
+
+export const stem = (word: string) => {
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length) + replacement;
+    }
+  }
+  return word;
+};
+
+// Fraction of query words found in the document, between 0 and 1.
+export const similarity = (query: string, document: string) => {
+  const queryStems = [...new Set(tokenize(query).map(stem))];
+  if (queryStems.length === 0) return 0;
+  const documentStems = new Set(tokenize(document).map(stem));
+  return queryStems.filter((q) => documentStems.has(q)).length / queryStems.length;
+};
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// The most frequent meaningful words, scored by relative frequency, with a few
+// spelling variants the UI lets the user swap between.
+export const extractKeywords = (text: string, limit: number = 6) => {
+  const counts = new Map<string, number>();
+  for (const word of tokenize(text)) {
+    if (word.length < 4 || /^\d+$/.test(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, limit);
+  const top = ranked[0]?.[1] ?? 1;
+
+  return ranked.map(([word, count]) => {
+    const variants = [...new Set([titleCase(stem(word)), word.toUpperCase()])];
+    return {
+      keyword: titleCase(word),
+      score: Math.round((0.5 + (count / top) * 0.45) * 100) / 100,
+      variants: variants.filter((v) => v !== titleCase(word)),
+    };
+  });
+};
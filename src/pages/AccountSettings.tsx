@@ -0,0 +1,567 @@
+import React, { useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Copy, Download, Loader2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/useToast";
+import { useConfirm } from "@/hooks/useConfirm";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  applyServerErrors,
+  changePasswordFormSchema,
+  MIN_PASSWORD_LENGTH,
+  newPasswordFormSchema,
+  passwordFormSchema,
+  profileFormSchema,
+  totpCodeFormSchema,
+  type ChangePasswordFormValues,
+  type NewPasswordFormValues,
+  type PasswordFormValues,
+  type ProfileFormValues,
+  type TotpCodeFormValues,
+} from "@/lib/forms";
+import { disableMfa, enableMfa, getMfaStatus, startMfaSetup } from "@/lib/client";
+import type { MfaSetup } from "@/lib/schemas";
+import FieldError from "@/components/FieldError";
+
+const inputClass =
+  "w-full px-3 py-2 bg-white border border-zinc-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900 focus:border-transparent shadow-sm";
+const errorRing = "border-red-300 focus:ring-red-500";
+
+const Section: React.FC<{ title: string; description: string; danger?: boolean; children: React.ReactNode }> = ({
+  title,
+  description,
+  danger,
+  children,
+}) => (
+  <section className={`bg-white border rounded-xl shadow-sm p-6 space-y-4 ${danger ? "border-red-200" : "border-zinc-200"}`}>
+    <div>
+      <h2 className={`text-base font-semibold ${danger ? "text-red-600" : "text-zinc-900"}`}>{title}</h2>
+      <p className="text-sm text-zinc-500 mt-1">{description}</p>
+    </div>
+    {children}
+  </section>
+);
+
+const ProfileSection: React.FC = () => {
+  const { user, updateName } = useAuth();
+  const toast = useToast();
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: { name: user?.name ?? "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+  const name = useWatch({ control: form.control, name: "name" });
+
+  const onSubmit = async ({ name }: ProfileFormValues) => {
+    try {
+      await updateName(name);
+      toast.success("Name updated");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to update name");
+    }
+  };
+
+  return (
+    <Section title="Profile" description="The name shown across Vekku.">
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-3 max-w-sm">
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium text-zinc-900">Display name</span>
+          <input
+            {...register("name")}
+            aria-invalid={!!errors.name}
+            className={`${inputClass} ${errors.name ? errorRing : ""}`}
+          />
+        </label>
+        <FieldError message={errors.name?.message} />
+        {errors.root?.server && <p className="text-sm text-red-600">{errors.root.server.message}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting || name.trim() === user?.name}
+          className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+        >
+          {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+          Save
+        </button>
+      </form>
+    </Section>
+  );
+};
+
+const PasswordSection: React.FC = () => {
+  const { changePassword } = useAuth();
+  const toast = useToast();
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+
+  const onSubmit = async ({ currentPassword, newPassword }: ChangePasswordFormValues) => {
+    try {
+      await changePassword(currentPassword, newPassword);
+      form.reset();
+      toast.success("Password changed");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to change password");
+    }
+  };
+
+  return (
+    <Section
+      title="Password"
+      description={`Use at least ${MIN_PASSWORD_LENGTH} characters. You'll stay signed in on this device.`}
+    >
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-3 max-w-sm">
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium text-zinc-900">Current password</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            {...register("currentPassword")}
+            aria-invalid={!!errors.currentPassword}
+            className={`${inputClass} ${errors.currentPassword ? errorRing : ""}`}
+          />
+        </label>
+        <FieldError message={errors.currentPassword?.message} />
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium text-zinc-900">New password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            {...register("newPassword")}
+            aria-invalid={!!errors.newPassword}
+            className={`${inputClass} ${errors.newPassword ? errorRing : ""}`}
+          />
+        </label>
+        <FieldError message={errors.newPassword?.message} />
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium text-zinc-900">Confirm new password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            {...register("confirmPassword")}
+            aria-invalid={!!errors.confirmPassword}
+            className={`${inputClass} ${errors.confirmPassword ? errorRing : ""}`}
+          />
+        </label>
+        <FieldError message={errors.confirmPassword?.message} />
+        {errors.root?.server && <p className="text-sm text-red-600">{errors.root.server.message}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+        >
+          {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+          Change password
+        </button>
+      </form>
+    </Section>
+  );
+};
+
+// Accounts created through a provider have no password to change; they set
+// one here, which also unlocks the password-confirmed actions below.
+const SetPasswordSection: React.FC = () => {
+  const { setPassword } = useAuth();
+  const toast = useToast();
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordFormSchema),
+    defaultValues: { newPassword: "", confirmPassword: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+
+  const onSubmit = async ({ newPassword }: NewPasswordFormValues) => {
+    try {
+      await setPassword(newPassword);
+      toast.success("Password set");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to set password");
+    }
+  };
+
+  return (
+    <Section
+      title="Password"
+      description={`You sign in with Google or GitHub. Set a password of at least ${MIN_PASSWORD_LENGTH} characters to also sign in with your email, and to confirm changes like deleting your account.`}
+    >
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-3 max-w-sm">
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium text-zinc-900">New password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            {...register("newPassword")}
+            aria-invalid={!!errors.newPassword}
+            className={`${inputClass} ${errors.newPassword ? errorRing : ""}`}
+          />
+        </label>
+        <FieldError message={errors.newPassword?.message} />
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium text-zinc-900">Confirm new password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            {...register("confirmPassword")}
+            aria-invalid={!!errors.confirmPassword}
+            className={`${inputClass} ${errors.confirmPassword ? errorRing : ""}`}
+          />
+        </label>
+        <FieldError message={errors.confirmPassword?.message} />
+        {errors.root?.server && <p className="text-sm text-red-600">{errors.root.server.message}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+        >
+          {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+          Set password
+        </button>
+      </form>
+    </Section>
+  );
+};
+
+// In place of a password field while the account has none.
+const NeedsPassword: React.FC<{ action: string }> = ({ action }) => (
+  <p className="text-sm text-zinc-500 max-w-sm">Set a password above first; it's needed to {action}.</p>
+);
+
+const TwoFactorSection: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const confirm = useConfirm();
+  const { data: status, isLoading, error: loadError, refetch } = useQuery({
+    queryKey: ["mfa"],
+    queryFn: getMfaStatus,
+  });
+  // Enrollment: setup holds the new secret until the first code is verified,
+  // then recoveryCodes are shown exactly once.
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+  const verifyForm = useForm<TotpCodeFormValues>({
+    resolver: zodResolver(totpCodeFormSchema),
+    defaultValues: { code: "" },
+  });
+  const disableForm = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: { password: "" },
+  });
+  const { errors: verifyErrors, isSubmitting: isVerifying } = verifyForm.formState;
+  const { errors: disableErrors, isSubmitting: isDisabling } = disableForm.formState;
+  const codeField = verifyForm.register("code");
+
+  const handleStart = async () => {
+    setError("");
+    setIsStarting(true);
+    try {
+      setSetup(await startMfaSetup());
+      verifyForm.reset();
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err, "Failed to start two-factor setup"));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleVerify = async ({ code }: TotpCodeFormValues) => {
+    try {
+      setRecoveryCodes(await enableMfa(code));
+      setSetup(null);
+      verifyForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["mfa"] });
+      toast.success("Two-factor authentication enabled");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(verifyForm, err, "Failed to verify code");
+    }
+  };
+
+  const handleDisable = async ({ password }: PasswordFormValues) => {
+    const confirmed = await confirm({
+      title: "Turn off two-factor authentication?",
+      description: "Signing in will only need your password. Your recovery codes stop working.",
+      confirmLabel: "Turn off",
+      destructive: true,
+    });
+    if (!confirmed) return;
+    try {
+      await disableMfa(password);
+      disableForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["mfa"] });
+      toast.success("Two-factor authentication turned off");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(disableForm, err, "Failed to turn off two-factor authentication");
+    }
+  };
+
+  const copyCodes = async (codes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Recovery codes copied");
+    } catch {
+      toast.error("Couldn't copy to the clipboard");
+    }
+  };
+
+  const downloadCodes = (codes: string[]) => {
+    const url = URL.createObjectURL(new Blob([codes.join("\n") + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "vekku-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const description = "Require a code from an authenticator app when signing in.";
+
+  if (recoveryCodes) {
+    return (
+      <Section title="Two-factor authentication" description={description}>
+        <div className="space-y-3">
+          <p className="text-sm text-zinc-700">
+            Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your
+            authenticator. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-zinc-50 border border-zinc-200 rounded-lg font-mono text-sm text-zinc-900 max-w-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => copyCodes(recoveryCodes)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-zinc-200 text-zinc-700 hover:bg-zinc-50 transition-colors"
+            >
+              <Copy size={14} />
+              Copy
+            </button>
+            <button
+              onClick={() => downloadCodes(recoveryCodes)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-zinc-200 text-zinc-700 hover:bg-zinc-50 transition-colors"
+            >
+              <Download size={14} />
+              Download
+            </button>
+            <button
+              onClick={() => setRecoveryCodes(null)}
+              className="bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium shadow-sm"
+            >
+              I've saved them
+            </button>
+          </div>
+        </div>
+      </Section>
+    );
+  }
+
+  if (setup) {
+    return (
+      <Section title="Two-factor authentication" description={description}>
+        <form onSubmit={verifyForm.handleSubmit(handleVerify)} noValidate className="space-y-4">
+          <p className="text-sm text-zinc-700">
+            Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the
+            6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+            <div className="p-3 bg-white border border-zinc-200 rounded-lg w-fit">
+              <QRCodeSVG value={setup.otpauthUri} size={160} />
+            </div>
+            <div className="text-xs text-zinc-500 space-y-1 min-w-0">
+              <p>Can't scan it? Enter this key manually:</p>
+              <p className="font-mono text-sm text-zinc-900 break-all select-all">{setup.secret}</p>
+              <a href={setup.otpauthUri} className="inline-block text-indigo-600 hover:text-indigo-700">
+                Open in authenticator app
+              </a>
+            </div>
+          </div>
+          <label className="block space-y-1.5 max-w-sm">
+            <span className="text-sm font-medium text-zinc-900">Verification code</span>
+            <input
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="123456"
+              {...codeField}
+              onChange={(e) => {
+                e.target.value = e.target.value.replace(/\D/g, "");
+                codeField.onChange(e);
+              }}
+              aria-invalid={!!verifyErrors.code}
+              className={`${inputClass} font-mono tracking-widest ${verifyErrors.code ? errorRing : ""}`}
+              autoFocus
+            />
+          </label>
+          <div className="max-w-sm">
+            <FieldError message={verifyErrors.code?.message} />
+          </div>
+          {verifyErrors.root?.server && <p className="text-sm text-red-600">{verifyErrors.root.server.message}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isVerifying}
+              className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+            >
+              {isVerifying && <Loader2 size={14} className="animate-spin" />}
+              Verify and enable
+            </button>
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </Section>
+    );
+  }
+
+  return (
+    <Section title="Two-factor authentication" description={description}>
+      {isLoading ? (
+        <Loader2 size={18} className="animate-spin text-zinc-400" />
+      ) : loadError ? (
+        <div className="text-sm">
+          <p className="text-zinc-900">{getErrorMessage(loadError, "Failed to load two-factor status.")}</p>
+          <button onClick={() => refetch()} className="mt-2 text-indigo-600 hover:text-indigo-700 font-medium">
+            Try again
+          </button>
+        </div>
+      ) : status?.enabled && user?.hasPassword === false ? (
+        <NeedsPassword action="turn off two-factor authentication" />
+      ) : status?.enabled ? (
+        <form onSubmit={disableForm.handleSubmit(handleDisable)} noValidate className="space-y-3 max-w-sm">
+          <p className="text-sm text-zinc-700">
+            <span className="font-medium text-green-700">On.</span> {status.recoveryCodesRemaining} recovery{" "}
+            {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left.
+          </p>
+          <label className="block space-y-1.5">
+            <span className="text-sm font-medium text-zinc-900">Password to turn it off</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              {...disableForm.register("password")}
+              aria-invalid={!!disableErrors.password}
+              className={`${inputClass} ${disableErrors.password ? errorRing : ""}`}
+            />
+          </label>
+          <FieldError message={disableErrors.password?.message} />
+          {disableErrors.root?.server && <p className="text-sm text-red-600">{disableErrors.root.server.message}</p>}
+          <button
+            type="submit"
+            disabled={isDisabling}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-zinc-200 text-zinc-700 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors disabled:opacity-50"
+          >
+            {isDisabling && <Loader2 size={14} className="animate-spin" />}
+            Turn off
+          </button>
+        </form>
+      ) : (
+        <div className="space-y-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={handleStart}
+            disabled={isStarting}
+            className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+          >
+            {isStarting && <Loader2 size={14} className="animate-spin" />}
+            Set up two-factor authentication
+          </button>
+        </div>
+      )}
+    </Section>
+  );
+};
+
+const DeleteAccountSection: React.FC = () => {
+  const { user, deleteAccount } = useAuth();
+  const toast = useToast();
+  const confirm = useConfirm();
+  const form = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: { password: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+
+  const onSubmit = async ({ password }: PasswordFormValues) => {
+    const confirmed = await confirm({
+      title: "Delete your account?",
+      description: "All of your contents and tags will be permanently deleted. This cannot be undone.",
+      confirmLabel: "Delete account",
+      destructive: true,
+      confirmPhrase: "delete my account",
+    });
+    if (!confirmed) return;
+
+    try {
+      // Signs out and leaves this page on success.
+      await deleteAccount(password);
+      toast.info("Your account has been deleted");
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to delete account");
+    }
+  };
+
+  return (
+    <Section
+      title="Delete account"
+      description="Permanently remove your account and all of its data."
+      danger
+    >
+      {user?.hasPassword === false ? (
+        <NeedsPassword action="delete your account" />
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-3 max-w-sm">
+          <label className="block space-y-1.5">
+            <span className="text-sm font-medium text-zinc-900">Confirm with your password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              {...register("password")}
+              aria-invalid={!!errors.password}
+              className={`${inputClass} ${errors.password ? errorRing : ""}`}
+            />
+          </label>
+          <FieldError message={errors.password?.message} />
+          {errors.root?.server && <p className="text-sm text-red-600">{errors.root.server.message}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+          >
+            {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+            Delete account
+          </button>
+        </form>
+      )}
+    </Section>
+  );
+};
+
+const AccountSettings: React.FC = () => {
+  const { user } = useAuth();
+  return (
+    <div className="space-y-4 max-w-2xl">
+      <h1 className="text-2xl font-semibold tracking-tight text-zinc-900">Account settings</h1>
+      <ProfileSection />
+      {user?.hasPassword === false ? <SetPasswordSection /> : <PasswordSection />}
+      <TwoFactorSection />
+      <DeleteAccountSection />
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, MoreHorizontal, Search, Users, X } from "lucide-react";
+import { listUsers, updateUser } from "@/lib/client";
+import { ROLES } from "@/lib/domain";
+import { getErrorMessage } from "@/lib/errors";
+import type { AdminUser } from "@/lib/schemas";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/useToast";
+import { useConfirm } from "@/hooks/useConfirm";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const Badge: React.FC<{ tone: "green" | "amber" | "red" | "indigo" | "zinc"; children: React.ReactNode }> = ({
+  tone,
+  children,
+}) => {
+  const tones = {
+    green: "text-green-700 bg-green-50 border-green-100",
+    amber: "text-amber-700 bg-amber-50 border-amber-100",
+    red: "text-red-700 bg-red-50 border-red-100",
+    indigo: "text-indigo-700 bg-indigo-50 border-indigo-100",
+    zinc: "text-zinc-600 bg-zinc-50 border-zinc-200",
+  };
+  return (
+    <span className={`text-[10px] uppercase tracking-wider font-semibold border rounded px-1.5 py-0.5 ${tones[tone]}`}>
+      {children}
+    </span>
+  );
+};
+
+const AdminUsers: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user: me } = useAuth();
+  const toast = useToast();
+  const confirm = useConfirm();
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const { data: users = [], isLoading, error, refetch } = useQuery({
+    queryKey: ["admin", "users"],
+    queryFn: ({ signal }) => listUsers({ signal }),
+  });
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleUsers = query
+    ? users.filter((u) => u.name.toLowerCase().includes(query) || u.email.toLowerCase().includes(query))
+    : users;
+
+  const applyChange = async (target: AdminUser, changes: Parameters<typeof updateUser>[1], success: string) => {
+    try {
+      await updateUser(target.id, changes);
+      queryClient.invalidateQueries({ queryKey: ["admin", "users"] });
+      toast.success(success);
+    } catch (err) {
+      console.error("Failed to update user", err);
+      toast.error("Failed to update user", getErrorMessage(err, "Please try again."));
+    }
+  };
+
+  const handleToggleRole = async (target: AdminUser) => {
+    const makeAdmin = target.role !== ROLES.admin;
+    const confirmed = await confirm({
+      title: makeAdmin ? `Make ${target.name} an admin?` : `Remove admin access from ${target.name}?`,
+      description: makeAdmin ? "Admins can manage every user, including other admins." : undefined,
+      confirmLabel: makeAdmin ? "Make admin" : "Remove admin",
+      destructive: !makeAdmin,
+    });
+    if (!confirmed) return;
+    await applyChange(target, { role: makeAdmin ? ROLES.admin : ROLES.user }, `${target.name} is now ${makeAdmin ? "an admin" : "a user"}`);
+  };
+
+  const handleToggleDisabled = async (target: AdminUser) => {
+    if (!target.disabled) {
+      const confirmed = await confirm({
+        title: `Disable ${target.name}?`,
+        description: "They will be signed out everywhere and won't be able to sign in until re-enabled. Their data is kept.",
+        confirmLabel: "Disable",
+        destructive: true,
+      });
+      if (!confirmed) return;
+    }
+    await applyChange(target, { disabled: !target.disabled }, `${target.name} ${target.disabled ? "enabled" : "disabled"}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-900">Users</h1>
+        <p className="text-sm text-zinc-500 mt-1">Manage roles and access for every account.</p>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={16} />
+        <input
+          type="text"
+          placeholder="Search by name or email..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full pl-9 pr-9 py-2 bg-white border border-zinc-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900 focus:border-transparent shadow-sm"
+        />
+        {searchQuery && (
+          <button
+            onClick={() => setSearchQuery("")}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-zinc-400 hover:text-zinc-600 p-1"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white border border-zinc-200 rounded-xl shadow-sm overflow-hidden">
+        <div className="hidden sm:grid grid-cols-[1fr_auto_auto_2.5rem] gap-4 px-6 py-3 border-b border-zinc-100 bg-zinc-50/50 text-xs font-medium text-zinc-500 uppercase tracking-wider">
+          <div>User</div>
+          <div className="w-20 text-right">Contents</div>
+          <div className="w-20 text-right">Tags</div>
+          <div />
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center p-12 text-zinc-500">
+            <Loader2 className="animate-spin mb-2" size={24} />
+            <p className="text-sm">Loading users...</p>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center p-8 text-center">
+            <p className="font-medium text-zinc-900 px-4">{getErrorMessage(error, "Failed to load users.")}</p>
+            <button onClick={() => refetch()} className="mt-4 text-indigo-600 hover:text-indigo-700 text-sm font-medium">
+              Try again
+            </button>
+          </div>
+        ) : visibleUsers.length === 0 ? (
+          <div className="p-16 text-center">
+            <div className="w-10 h-10 bg-zinc-100 rounded-full flex items-center justify-center mx-auto mb-3 text-zinc-400">
+              <Users size={18} />
+            </div>
+            <p className="text-zinc-900 font-medium text-sm">No users found</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-zinc-100">
+            {visibleUsers.map((u) => {
+              const isSelf = u.id === me?.id;
+              return (
+                <div
+                  key={u.id}
+                  className={`grid grid-cols-[1fr_2.5rem] sm:grid-cols-[1fr_auto_auto_2.5rem] items-center gap-4 px-4 sm:px-6 py-4 ${
+                    u.disabled ? "bg-zinc-50/60" : ""
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`text-sm font-medium ${u.disabled ? "text-zinc-400" : "text-zinc-900"}`}>
+                        {u.name}
+                        {isSelf && <span className="text-zinc-400 font-normal"> (you)</span>}
+                      </span>
+                      <Badge tone={u.role === ROLES.admin ? "indigo" : "zinc"}>{u.role}</Badge>
+                      {u.verified ? <Badge tone="green">Verified</Badge> : <Badge tone="amber">Unverified</Badge>}
+                      {u.disabled && <Badge tone="red">Disabled</Badge>}
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-0.5 truncate">
+                      {u.email}
+                      <span className="sm:hidden"> • {u.contentCount} contents • {u.tagCount} tags</span>
+                    </p>
+                  </div>
+                  <div className="hidden sm:block w-20 text-right text-sm text-zinc-600 tabular-nums">{u.contentCount}</div>
+                  <div className="hidden sm:block w-20 text-right text-sm text-zinc-600 tabular-nums">{u.tagCount}</div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        disabled={isSelf}
+                        title={isSelf ? "You can't change your own account here" : undefined}
+                        className="p-2 text-zinc-400 hover:text-zinc-700 hover:bg-zinc-100 rounded-md transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                      >
+                        <MoreHorizontal size={16} />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleToggleRole(u)} className="cursor-pointer">
+                        {u.role === ROLES.admin ? "Remove admin" : "Make admin"}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleToggleDisabled(u)}
+                        className={`cursor-pointer ${u.disabled ? "" : "text-red-600 focus:text-red-600 focus:bg-red-50"}`}
+                      >
+                        {u.disabled ? "Enable user" : "Disable user"}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminUsers;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useParams, Link, useNavigate } from "react-router-dom";
+import { useParams, Link, useNavigate, useLocation } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -18,54 +18,64 @@ import {
   Loader2
 } from "lucide-react";
 
-import api from "@/lib/api";
+import {
+  addContentTags,
+  createTags,
+  deleteContent,
+  getContent,
+  getContentTags,
+  getSuggestions,
+  regenerateSuggestions,
+  removeContentTags,
+} from "@/lib/client";
+import {
+  isExistingSuggestion,
+  isKeywordSuggestion,
+  isYoutubeContent,
+  type Content,
+  type SuggestionItem,
+  type TagItem,
+} from "@/lib/domain";
+import { getErrorMessage } from "@/lib/errors";
+import { contentsBackPath } from "@/lib/navigation";
+import { useRateLimitedAction } from "@/hooks/useRateLimit";
+import { useToast } from "@/hooks/useToast";
+import { useConfirm } from "@/hooks/useConfirm";
 import EditContentModal from "@/components/EditContentModal";
 import TagSelector from "@/components/TagSelector";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 
-// --- Types ---
-interface Content {
-  id: string;
-  title: string;
-  body: string;
-  contentType: string;
-  metadata?: any;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface TagItem {
-  id: string; // UserTag ID
-  name: string;
-  linkId?: string; // ContentTag ID
-}
-
-interface SuggestionItem {
-  id?: string; // Tag ID if existing
-  name: string; // Tag Name or Keyword
-  score: number;
-  type: "EXISTING" | "KEYWORD";
-  variants?: string[];
-}
-
 // --- Components ---
 
 const ContentHeader: React.FC<{ content: Content; onUpdate: () => void }> = ({ content, onUpdate }) => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const backPath = contentsBackPath(location.state);
+  const toast = useToast();
+  const confirm = useConfirm();
+
   const handleDelete = async () => {
-    if (!confirm("Delete this content?")) return;
+    const confirmed = await confirm({
+      title: "Delete this content?",
+      description: "This cannot be undone.",
+      confirmLabel: "Delete",
+      destructive: true,
+    });
+    if (!confirmed) return;
+
     try {
-      await api.delete(`/content/${content.id}`);
-      navigate("/contents");
+      await deleteContent(content.id);
+      toast.success("Content deleted");
+      navigate(backPath);
     } catch (e) {
       console.error(e);
-      alert("Failed to delete content");
+      toast.error("Failed to delete content", getErrorMessage(e, "Please try again."));
     }
   };
 
   return (
     <div className="flex flex-col gap-4 border-b border-zinc-200 pb-6 mb-6">
-      <Link to="/contents" className="text-zinc-500 hover:text-zinc-900 text-sm font-medium flex items-center gap-1 w-fit">
+      <Link to={backPath} className="text-zinc-500 hover:text-zinc-900 text-sm font-medium flex items-center gap-1 w-fit">
         <ArrowLeft size={16} />
         Back to Contents
       </Link>
@@ -96,7 +106,7 @@ const ContentHeader: React.FC<{ content: Content; onUpdate: () => void }> = ({ c
 };
 
 const ContentBody: React.FC<{ content: Content }> = ({ content }) => {
-  if (content.contentType === "YOUTUBE_VIDEO") {
+  if (isYoutubeContent(content)) {
     return (
       <div className="space-y-6">
         <div className="flex items-center gap-3 p-4 bg-zinc-50 border border-zinc-100 rounded-xl group transition-all hover:bg-red-50/30 hover:border-red-100">
@@ -106,18 +116,18 @@ const ContentBody: React.FC<{ content: Content }> = ({ content }) => {
           <div className="flex-1 min-w-0">
             <p className="text-[10px] uppercase font-bold text-zinc-400 tracking-wider mb-0.5">YouTube Link</p>
             <a 
-              href={content.metadata?.youtubeUrl} 
+              href={content.metadata.youtubeUrl} 
               target="_blank" 
               rel="noopener noreferrer" 
               className="text-sm font-semibold text-indigo-600 hover:text-indigo-700 break-all flex items-center gap-1.5"
             >
-              {content.metadata?.youtubeUrl}
+              {content.metadata.youtubeUrl}
               <ExternalLink size={12} />
             </a>
           </div>
         </div>
 
-        {content.metadata?.userDescription && (
+        {content.metadata.userDescription && (
           <div className="space-y-2">
             <p className="text-[10px] uppercase font-bold text-zinc-400 tracking-wider">Description</p>
             <div className="text-zinc-800 text-sm leading-relaxed whitespace-pre-wrap font-sans bg-zinc-50/50 p-4 rounded-xl border border-zinc-100/50">
@@ -146,31 +156,25 @@ const ContentBody: React.FC<{ content: Content }> = ({ content }) => {
 
 const TagsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
   const queryClient = useQueryClient();
+  const toast = useToast();
   const [isManageOpen, setIsManageOpen] = useState(false);
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
 
   const { data: activeTags = [], isLoading } = useQuery({
     queryKey: ["content-tags", contentId],
-    queryFn: async () => {
-      const res = await api.get(`/content/${contentId}/tags`);
-      return (res.data.data || []).map((t: any) => ({
-        id: t.tagId,
-        name: t.name,
-        linkId: t.id
-      })) as TagItem[];
-    },
+    queryFn: () => getContentTags(contentId),
   });
 
   const removeTag = async (tagId: string) => {
     try {
-      await api.delete(`/content/${contentId}/tags`, { data: { tagIds: [tagId] } });
+      await removeContentTags(contentId, [tagId]);
       queryClient.setQueryData(["content-tags", contentId], (old: TagItem[] = []) => 
         old.filter(t => t.id !== tagId)
       );
     } catch (e) {
       console.error(e);
-      alert("Failed to remove tag");
+      toast.error("Failed to remove tag", getErrorMessage(e, "Please try again."));
     }
   };
 
@@ -187,15 +191,16 @@ const TagsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
       const toRemove = currentIds.filter(id => !selectedTagIds.includes(id));
 
       const promises = [];
-      if (toAdd.length > 0) promises.push(api.post(`/content/${contentId}/tags`, { tagIds: toAdd }));
-      if (toRemove.length > 0) promises.push(api.delete(`/content/${contentId}/tags`, { data: { tagIds: toRemove } }));
+      if (toAdd.length > 0) promises.push(addContentTags(contentId, toAdd));
+      if (toRemove.length > 0) promises.push(removeContentTags(contentId, toRemove));
 
       await Promise.all(promises);
       await queryClient.invalidateQueries({ queryKey: ["content-tags", contentId] });
       setIsManageOpen(false);
+      toast.success("Tags updated");
     } catch (e) {
       console.error(e);
-      alert("Failed to update tags");
+      toast.error("Failed to update tags", getErrorMessage(e, "Please try again."));
     } finally {
       setIsSaving(false);
     }
@@ -259,6 +264,7 @@ const TagsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
 
 const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
   const queryClient = useQueryClient();
+  const toast = useToast();
   const [suggestions, setSuggestions] = useState<SuggestionItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -266,6 +272,7 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
   // Separate loading states for actions
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
+  const regenerate = useRateLimitedAction("suggestions", () => regenerateSuggestions(contentId));
 
   // Selection
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
@@ -274,14 +281,7 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
   // Fetch Active Tags to filter suggestions
   const { data: activeTags = [] } = useQuery({
     queryKey: ["content-tags", contentId],
-    queryFn: async () => {
-      const res = await api.get(`/content/${contentId}/tags`);
-      return (res.data.data || []).map((t: any) => ({
-        id: t.tagId,
-        name: t.name,
-        linkId: t.id
-      })) as TagItem[];
-    },
+    queryFn: () => getContentTags(contentId),
     staleTime: 1000 * 60 * 5, 
   });
 
@@ -295,16 +295,10 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
     setIsLoading(true);
     setError(null);
     try {
-      const res = await api.get(`/suggestions/content/${contentId}`);
-      const { existing = [], potential = [] } = res.data;
-      const newItems: SuggestionItem[] = [
-        ...existing.map((s: any) => ({ ...s, id: s.tagId, type: "EXISTING" })),
-        ...potential.map((p: any) => ({ ...p, name: p.keyword, type: "KEYWORD" }))
-      ];
-      setSuggestions(newItems);
-    } catch (e: any) {
+      setSuggestions(await getSuggestions(contentId));
+    } catch (e) {
       console.error(e);
-      setError("Failed to load suggestions.");
+      setError(getErrorMessage(e, "Failed to load suggestions."));
     } finally {
       setIsLoading(false);
     }
@@ -315,16 +309,10 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
     setError(null);
 
     try {
-      const res = await api.post(`/suggestions/content/${contentId}/regenerate`);
-      const { existing = [], potential = [] } = res.data;
-      const newItems: SuggestionItem[] = [
-        ...existing.map((s: any) => ({ ...s, id: s.tagId, type: "EXISTING" })),
-        ...potential.map((p: any) => ({ ...p, name: p.keyword, type: "KEYWORD" }))
-      ];
-      setSuggestions(newItems);
-    } catch (e: any) {
+      setSuggestions(await regenerate.run());
+    } catch (e) {
       console.error(e);
-      setError(e.response?.status === 429 ? "Rate limit exceeded." : "Failed to regenerate.");
+      setError(getErrorMessage(e, "Failed to regenerate."));
     } finally {
        setIsRegenerating(false);
     }
@@ -335,15 +323,13 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
     try {
       const promises = [];
       if (selectedIds.length > 0) {
-        promises.push(api.post(`/content/${contentId}/tags`, { tagIds: selectedIds }));
+        promises.push(addContentTags(contentId, selectedIds));
       }
       if (selectedKeywords.length > 0) {
         // Create tags for keywords first
-        const newTagsRes = await api.post("/tag", { 
-            tags: selectedKeywords.map(k => ({ name: k, semantic: k })) 
-        });
-        const newTagIds = newTagsRes.data.map((t: any) => t.id);
-        promises.push(api.post(`/content/${contentId}/tags`, { tagIds: newTagIds }));
+        const newTags = await createTags(selectedKeywords.map(k => ({ name: k, semantic: k })));
+        const newTagIds = newTags.map((t) => t.id);
+        promises.push(addContentTags(contentId, newTagIds));
       }
       await Promise.all(promises);
       
@@ -352,15 +338,15 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
       // Update suggestions list immediately to remove added ones
       // (Though the re-render with new activeTags will also filter them)
       setSuggestions(prev => prev.filter(s => 
-        (s.type === "EXISTING" && !selectedIds.includes(s.id!)) ||
+        (s.type === "EXISTING" && !selectedIds.includes(s.id)) ||
         (s.type === "KEYWORD" && !selectedKeywords.includes(s.name))
       ));
       setSelectedIds([]);
       setSelectedKeywords([]);
-
+      toast.success("Suggestions added");
     } catch (e) {
       console.error(e);
-      alert("Failed to add suggestions");
+      toast.error("Failed to add suggestions", getErrorMessage(e, "Please try again."));
     } finally {
       setIsAdding(false);
     }
@@ -368,11 +354,11 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
 
   // Filter out tags that are already active
   const existingSuggestions = suggestions
-    .filter(s => s.type === "EXISTING")
+    .filter(isExistingSuggestion)
     .filter(s => !activeTags.some(t => t.id === s.id));
 
   const keywordSuggestions = suggestions
-    .filter(s => s.type === "KEYWORD")
+    .filter(isKeywordSuggestion)
     .filter(k => {
         const lowerName = k.name.trim().toLowerCase();
         return !activeTags.some(t => t.name.toLowerCase() === lowerName);
@@ -390,8 +376,8 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
           disabled={isRegenerating || isLoading} 
           className="text-xs flex items-center gap-1.5 text-indigo-600 hover:bg-indigo-50 px-2 py-1.5 rounded-md transition-colors disabled:opacity-50"
         >
-          <RotateCw size={14} className={isRegenerating ? "animate-spin" : ""} />
-          Regenerate
+          <RotateCw size={14} className={isRegenerating && !regenerate.isWaiting ? "animate-spin" : ""} />
+          {regenerate.isWaiting ? `Retrying in ${regenerate.secondsLeft}s` : "Regenerate"}
         </button>
       </div>
 
@@ -416,11 +402,11 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
                <p className="text-[10px] uppercase font-bold text-indigo-400 mb-2">Existing Tags</p>
                <div className="flex flex-wrap gap-2">
                  {existingSuggestions.map(s => {
-                   const isSelected = selectedIds.includes(s.id!);
+                   const isSelected = selectedIds.includes(s.id);
                    return (
                      <button
                        key={s.id}
-                       onClick={() => setSelectedIds(prev => isSelected ? prev.filter(x => x !== s.id) : [...prev, s.id!])}
+                       onClick={() => setSelectedIds(prev => isSelected ? prev.filter(x => x !== s.id) : [...prev, s.id])}
                        className={`relative px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${
                          isSelected 
                            ? "bg-indigo-600 text-white border-indigo-600" 
@@ -465,7 +451,7 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
                          <div className="h-full bg-purple-400" style={{ width: `${s.score * 100}%` }} />
                        </div>
 
-                       {s.variants && s.variants.length > 0 && (
+                       {s.variants.length > 0 && (
                          <div className="flex flex-wrap gap-1 mt-2">
                            {s.variants.map(v => (
                              <span key={v} className="text-[9px] bg-white border border-zinc-200 px-1.5 py-0.5 rounded text-zinc-500">
@@ -501,13 +487,11 @@ const SuggestionsSection: React.FC<{ contentId: string }> = ({ contentId }) => {
 
 const ContentDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const location = useLocation();
   
   const { data: content, isLoading, error } = useQuery({
     queryKey: ["content", id],
-    queryFn: async () => {
-      const res = await api.get(`/content/${id}`);
-      return res.data as Content;
-    },
+    queryFn: () => getContent(id!),
     enabled: !!id
   });
 
@@ -532,7 +516,7 @@ const ContentDetail: React.FC = () => {
         </div>
         <h2 className="text-lg font-bold text-zinc-900">Content not found</h2>
         <p className="text-zinc-500 text-sm mt-1 mb-6">The content you are looking for does not exist or has been deleted.</p>
-        <Link to="/contents" className="px-4 py-2 bg-black text-white rounded-md text-sm font-medium hover:bg-zinc-800">
+        <Link to={contentsBackPath(location.state)} className="px-4 py-2 bg-black text-white rounded-md text-sm font-medium hover:bg-zinc-800">
           Back to Contents
         </Link>
       </div>
@@ -1,11 +1,48 @@
 import React, { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { ChevronLeft, ChevronRight, Filter, X, CheckSquare, Square, Search, MoreHorizontal, Plus } from "lucide-react";
-import api, { bulkDeleteContents, searchContents } from "@/lib/api";
+import { Link, useLocation } from "react-router-dom";
+import { useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Filter, X, CheckSquare, Square, Search, MoreHorizontal, Plus } from "lucide-react";
+import {
+  bulkDeleteContents,
+  deleteContent,
+  listContents,
+  listContentsByTags,
+  nextChunkedPage,
+  searchContents,
+  type PageParams,
+  type RequestOptions,
+} from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { Content } from "@/lib/domain";
+import {
+  SEARCH_MODES,
+  hasSearchText,
+  highlightText,
+  listTagMembers,
+  parseSearchQuery,
+  resolveTagNames,
+  type SearchMode,
+} from "@/lib/searchQuery";
+import {
+  filterTagIds,
+  hasContentFilter,
+  matchesContentFilter,
+  planContentQuery,
+  rankHits,
+} from "@/lib/contentQuery";
+import { aboveMinScore } from "@/lib/searchMatch";
+import { useContentListParams } from "@/hooks/useContentListParams";
+import { FIRST_PAGE, useChunkedPagination } from "@/hooks/useChunkedPagination";
+import { useFilledPagination } from "@/hooks/useFilledPagination";
+import { useToast } from "@/hooks/useToast";
+import { useConfirm } from "@/hooks/useConfirm";
 import CreateContentModal from "@/components/CreateContentModal";
 import EditContentModal from "@/components/EditContentModal";
 import TagSelector from "@/components/TagSelector";
+import SearchMatch from "@/components/SearchMatch";
+import MinScoreSlider from "@/components/MinScoreSlider";
+import SearchQuerySummary from "@/components/SearchQuerySummary";
+import PaginationFooter from "@/components/PaginationFooter";
 import {
   Dialog,
   DialogContent,
@@ -20,40 +57,29 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-interface Content {
-  id: string;
-  title: string;
-  body: string;
-  contentType: string;
-  metadata?: any;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface PaginationMetadata {
-  nextChunkId: string | null;
-  chunkSize: number;
-  chunkTotalItems: number;
-  limit: number;
-  offset: number;
-}
-
 const LIMIT = 20;
+const PAGE_SIZES = [10, 20, 50];
 
 const Contents: React.FC = () => {
   const queryClient = useQueryClient();
-
-  // Pagination State
-  const [offset, setOffset] = useState(0);
-  const [chunkId, setChunkId] = useState<string | undefined>(undefined);
-  const [chunkStack, setChunkStack] = useState<string[]>([]);
-
-  // Search State
-  const [searchQuery, setSearchQuery] = useState("");
-  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const toast = useToast();
+  const confirm = useConfirm();
+  const location = useLocation();
+
+  // Paging, search and filters live in the URL (see useContentListParams).
+  const [listParams, setListParams] = useContentListParams();
+  const { q: debouncedQuery, tagIds: activeFilterTagIds } = listParams;
+
+  // Search State: the input updates as the user types; the URL catches up after a pause.
+  const [searchQuery, setSearchQuery] = useState(debouncedQuery);
+  const [syncedQuery, setSyncedQuery] = useState(debouncedQuery);
+  if (syncedQuery !== debouncedQuery) {
+    // The URL changed underneath us (Back/Forward), so show its query.
+    setSyncedQuery(debouncedQuery);
+    setSearchQuery(debouncedQuery);
+  }
 
   // Filtering State
-  const [activeFilterTagIds, setActiveFilterTagIds] = useState<string[]>([]);
   const [isFilterDialogOpen, setIsFilterDialogOpen] = useState(false);
   const [pendingTagIds, setPendingTagIds] = useState<string[]>([]);
 
@@ -63,53 +89,107 @@ const Contents: React.FC = () => {
   const isFiltering = activeFilterTagIds.length > 0;
 
   useEffect(() => {
+    if (searchQuery === debouncedQuery) return;
     const timer = setTimeout(() => {
-      setDebouncedQuery(searchQuery);
-      setOffset(0); 
-      setChunkId(undefined);
-      setChunkStack([]);
+      setListParams({ q: searchQuery, ...FIRST_PAGE }, { replace: true });
       setSelectedIds(new Set());
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [searchQuery]);
-
-  const { data: response, isLoading, error } = useQuery({
-    queryKey: ["contents", { offset, chunkId, activeFilterTagIds, debouncedQuery }],
-    queryFn: async () => {
-      if (debouncedQuery) {
-        const res = await searchContents(debouncedQuery, LIMIT);
-        return {
-           data: res.data, 
-           metadata: { 
-             chunkTotalItems: res.data.length, 
-             limit: LIMIT, 
-             offset: 0, 
-             nextChunkId: null,
-             chunkSize: LIMIT
-           } 
-        };
-      }
-
-      const params = new URLSearchParams({
-        limit: LIMIT.toString(),
-        offset: offset.toString(),
-      });
-      if (chunkId) params.append("chunkId", chunkId);
-
-      if (isFiltering) {
-        params.append("tagIds", activeFilterTagIds.join(","));
-        const res = await api.get(`/content/by-tags?${params.toString()}`);
-        return res.data;
-      } else {
-        const res = await api.get(`/content?${params.toString()}`);
-        return res.data;
-      }
+  }, [searchQuery, debouncedQuery, setListParams]);
+
+  // The search box also takes filters (see searchQuery.ts); without any
+  // search text the list is only filtered, not searched.
+  const parsedQuery = parseSearchQuery(debouncedQuery);
+  const isSearching = hasSearchText(parsedQuery);
+  const tagNames = [...parsedQuery.tags, ...parsedQuery.excludeTags];
+  const tagLookup = useQuery({
+    queryKey: ["tags", "by-name", tagNames],
+    queryFn: ({ signal }) => resolveTagNames(tagNames, { signal }),
+    enabled: tagNames.length > 0,
+  });
+  const unknownTags = tagNames.filter((name) => tagLookup.data && !tagLookup.data[name.toLowerCase()]);
+  // Wait for tag: names to resolve; if a required one doesn't exist, nothing can match.
+  const tagsResolved = tagNames.length === 0 || tagLookup.isSuccess;
+  const matchesNothing = tagsResolved && parsedQuery.tags.some((name) => !tagLookup.data?.[name.toLowerCase()]);
+
+  // The backend can't apply most of the query, so the page does (see contentQuery.ts).
+  const plan = planContentQuery(parsedQuery, tagLookup.data ?? {}, activeFilterTagIds);
+  const memberTagIds = filterTagIds(plan.filter);
+  // One query per tag, so queries sharing a tag share its lookup.
+  const tagMembers = useQueries({
+    queries: memberTagIds.map((tagId) => ({
+      queryKey: ["contents", "tag-members", tagId],
+      queryFn: ({ signal }) => listTagMembers(tagId, { signal }),
+      enabled: !matchesNothing,
+    })),
+    combine: (results) => ({
+      members: Object.fromEntries(results.flatMap((r, i) => (r.data ? [[memberTagIds[i], r.data.ids] as const] : []))),
+      isSuccess: results.every((r) => r.isSuccess),
+      isLoading: results.some((r) => r.isLoading),
+      error: results.find((r) => r.error)?.error ?? null,
+      isPartial: results.some((r) => r.data && !r.data.complete),
+    }),
+  });
+  const matchesFilter = (content: Content) =>
+    tagMembers.isSuccess && matchesContentFilter(content, plan.filter, tagMembers.members);
+
+  const clearSelection = () => setSelectedIds(new Set());
+  const { source } = plan;
+  const fetchSource = (page: PageParams, options: RequestOptions) =>
+    source.kind === "by-tags" ? listContentsByTags(source.tagIds, page, options) : listContents(page, options);
+  // Rows the client drops leave the backend's pages short, so filtered lists
+  // and search (which is also re-ranked and cut at the minimum score) fill
+  // their pages from several requests.
+  const isFilteredList = !isSearching && hasContentFilter(plan.filter);
+  const canQuery = tagsResolved && !matchesNothing;
+  const list = useChunkedPagination({
+    queryKey: ["contents", source],
+    fetchPage: fetchSource,
+    pageSize: LIMIT,
+    store: [listParams, setListParams],
+    onPageChange: clearSelection,
+    enabled: !isSearching && !isFilteredList && canQuery,
+  });
+  const filteredList = useFilledPagination({
+    queryKey: ["contents", source, "filtered"],
+    fetchPage: async (page, options) => {
+      const result = await fetchSource(page, options);
+      return { items: result.data, next: nextChunkedPage(page, result) };
     },
+    keep: (items) => items.filter(matchesFilter),
+    pageSize: LIMIT,
+    store: [listParams, setListParams],
+    onPageChange: clearSelection,
+    enabled: isFilteredList && canQuery && tagMembers.isSuccess,
   });
-
-  const contents = response?.data || [];
-  const metadata = response?.metadata as PaginationMetadata | null;
+  const search = useFilledPagination({
+    queryKey: ["contents", "search", { q: parsedQuery.text }],
+    fetchPage: async ({ limit, offset }, options) => {
+      const hits = await searchContents({ q: parsedQuery.text, limit, offset }, options);
+      // A short page means there is nothing after it.
+      return { items: hits, next: hits.length < limit ? undefined : { limit, offset: offset + limit } };
+    },
+    // The mode and minimum score only re-rank and hide fetched hits, so changing them never refetches.
+    keep: (hits) => aboveMinScore(rankHits(hits, listParams.mode, parsedQuery).filter(matchesFilter), listParams.minScore),
+    pageSize: LIMIT,
+    store: [listParams, setListParams],
+    onPageChange: clearSelection,
+    enabled: isSearching && canQuery && tagMembers.isSuccess,
+  });
+  const filled = isSearching ? search : isFilteredList ? filteredList : null;
+  const { query, pagination } = filled ?? list;
+  const hasScores = search.loaded.some((hit) => hit.score !== undefined);
+  const loaded: Content[] = matchesNothing ? [] : (filled?.loaded ?? list.items);
+  const contents: Content[] = matchesNothing ? [] : (filled?.items ?? list.items);
+  // Search rows also show their score and matching passage.
+  const hitsById = new Map(isSearching ? search.items.map((hit) => [hit.id, hit]) : []);
+  const isLoading =
+    query.isLoading ||
+    tagLookup.isLoading ||
+    tagMembers.isLoading ||
+    (contents.length === 0 && !!filled?.isFilling);
+  const error = query.error ?? tagLookup.error ?? tagMembers.error;
 
   const handleRefresh = () => {
     queryClient.invalidateQueries({ queryKey: ["contents"] });
@@ -117,13 +197,21 @@ const Contents: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this content?")) return;
+    const confirmed = await confirm({
+      title: "Delete this content?",
+      description: "This cannot be undone.",
+      confirmLabel: "Delete",
+      destructive: true,
+    });
+    if (!confirmed) return;
+
     try {
-      await api.delete(`/content/${id}`);
+      await deleteContent(id);
       handleRefresh();
+      toast.success("Content deleted");
     } catch (error) {
       console.error("Failed to delete content:", error);
-      alert("Failed to delete content");
+      toast.error("Failed to delete content", getErrorMessage(error, "Please try again."));
     }
   };
 
@@ -152,7 +240,15 @@ const Contents: React.FC = () => {
 
   const handleBulkDelete = async (deleteAll: boolean = false) => {
     const count = deleteAll ? "ALL CONTENTS" : `${selectedIds.size} selected contents`;
-    if (!confirm(`Are you sure you want to delete ${count}? This cannot be undone.`)) return;
+    const confirmed = await confirm({
+      title: `Delete ${count}?`,
+      description: "This cannot be undone.",
+      confirmLabel: "Delete",
+      destructive: true,
+      // Wiping everything is too easy to hit by accident; make the user spell it out.
+      confirmPhrase: deleteAll ? "delete all contents" : undefined,
+    });
+    if (!confirmed) return;
 
     try {
       if (deleteAll) {
@@ -161,80 +257,34 @@ const Contents: React.FC = () => {
         await bulkDeleteContents(Array.from(selectedIds));
       }
       handleRefresh();
+      toast.success(deleteAll ? "All contents deleted" : `Deleted ${count}`);
     } catch (error) {
       console.error("Failed to bulk delete:", error);
-      alert("Failed to delete contents.");
-    }
-  };
-
-  const handleNext = () => {
-    if (!metadata) return;
-    
-    if (debouncedQuery) {
-      if (contents.length === LIMIT) {
-        setOffset(offset + LIMIT);
-        setSelectedIds(new Set());
-      }
-      return;
-    }
-
-    if (offset + LIMIT < metadata.chunkTotalItems) {
-      setOffset(offset + LIMIT);
-    } else if (metadata.nextChunkId) {
-      setChunkStack([...chunkStack, chunkId || ""]); 
-      setChunkId(metadata.nextChunkId);
-      setOffset(0);
+      toast.error("Failed to delete contents", getErrorMessage(error, "Please try again."));
     }
-    setSelectedIds(new Set());
   };
 
-  const handlePrev = () => {
-    if (debouncedQuery) {
-      if (offset > 0) {
-        setOffset(Math.max(0, offset - LIMIT));
-        setSelectedIds(new Set());
-      }
-      return;
-    }
-
-    if (offset - LIMIT >= 0) {
-      setOffset(offset - LIMIT);
-    } else if (chunkStack.length > 0) {
-      const prevStack = [...chunkStack];
-      const prevChunk = prevStack.pop();
-      setChunkStack(prevStack);
-      setChunkId(prevChunk === "" ? undefined : prevChunk);
-      setOffset(0);
-    }
+  const handleModeChange = (mode: SearchMode) => {
+    if (mode === listParams.mode) return;
+    // Ranking decides which rows each page holds, so start over.
+    setListParams({ mode, ...FIRST_PAGE });
     setSelectedIds(new Set());
   };
 
-  const canGoNext = metadata ? (
-    debouncedQuery 
-      ? contents.length === LIMIT 
-      : (offset + LIMIT < metadata.chunkTotalItems || !!metadata.nextChunkId)
-  ) : false;
-
-  const canGoPrev = debouncedQuery ? offset > 0 : (offset > 0 || chunkStack.length > 0);
-
   const openFilterDialog = () => {
     setPendingTagIds([...activeFilterTagIds]);
     setIsFilterDialogOpen(true);
   };
 
   const applyFilter = () => {
-    setActiveFilterTagIds([...pendingTagIds]);
-    setOffset(0);
-    setChunkId(undefined);
-    setChunkStack([]);
+    setListParams({ tagIds: [...pendingTagIds], ...FIRST_PAGE });
+    setSelectedIds(new Set());
     setIsFilterDialogOpen(false);
   };
 
   const clearFilter = () => {
-    setActiveFilterTagIds([]);
-    setOffset(0);
-    setChunkId(undefined);
-    setChunkStack([]);
+    setListParams({ tagIds: [], ...FIRST_PAGE });
+    setSelectedIds(new Set());
   };
 
   const togglePendingTag = (tagId: string) => {
@@ -269,7 +319,7 @@ const Contents: React.FC = () => {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={16} />
           <input 
             type="text" 
-            placeholder="Search content semantically..." 
+            placeholder='Search... try "a phrase", type:MARKDOWN, tag:name or -tag:name' 
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full pl-9 pr-9 py-2 bg-white border border-zinc-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900 focus:border-transparent shadow-sm"
@@ -281,6 +331,24 @@ const Contents: React.FC = () => {
           )}
         </div>
 
+        {/* Search Mode */}
+        <div role="radiogroup" aria-label="Search mode" className="flex p-0.5 bg-zinc-100 border border-zinc-200 rounded-lg shadow-sm">
+          {(Object.keys(SEARCH_MODES) as SearchMode[]).map((mode) => (
+            <button
+              key={mode}
+              role="radio"
+              aria-checked={listParams.mode === mode}
+              title={SEARCH_MODES[mode].description}
+              onClick={() => handleModeChange(mode)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                listParams.mode === mode ? "bg-white text-zinc-900 shadow-sm" : "text-zinc-500 hover:text-zinc-800"
+              }`}
+            >
+              {SEARCH_MODES[mode].label}
+            </button>
+          ))}
+        </div>
+
         {/* Filter */}
         <button 
           onClick={openFilterDialog}
@@ -301,6 +369,25 @@ const Contents: React.FC = () => {
         )}
       </div>
 
+      <SearchQuerySummary parsed={parsedQuery} unknownTags={unknownTags} partialTags={tagMembers.isPartial} />
+
+      {isSearching && listParams.mode !== "semantic" && (
+        <p className="text-xs text-zinc-500">
+          {SEARCH_MODES[listParams.mode].label} ranks each page of results as it loads, so rows already shown keep their
+          place; a strong match on a later page shows up there.
+        </p>
+      )}
+
+      {isSearching && hasScores && (
+        <MinScoreSlider
+          value={listParams.minScore}
+          onCommit={(minScore) => {
+            setListParams({ minScore, ...FIRST_PAGE }, { replace: true });
+            setSelectedIds(new Set());
+          }}
+        />
+      )}
+
       {/* Bulk Action Bar */}
       {selectedIds.size > 0 && (
         <div className="flex items-center justify-between bg-zinc-900 text-white px-4 py-3 rounded-lg shadow-sm animate-in fade-in slide-in-from-bottom-2">
@@ -344,7 +431,13 @@ const Contents: React.FC = () => {
                 <Search size={18} />
              </div>
              <p className="text-zinc-900 font-medium text-sm">No contents found</p>
-             <p className="text-zinc-500 text-xs mt-1">Try adjusting your filters or search query.</p>
+             <p className="text-zinc-500 text-xs mt-1">
+               {loaded.length > 0
+                 ? `None of the ${loaded.length} ${isSearching ? "matches" : "contents"} checked pass your filters${
+                     filled?.hasMore ? "; load more to keep looking" : ""
+                   }.`
+                 : "Try adjusting your filters or search query."}
+             </p>
           </div>
         ) : (
           <div className="divide-y divide-zinc-100">
@@ -370,6 +463,7 @@ const Contents: React.FC = () => {
                   <div className="flex items-start justify-between gap-2 mb-1">
                     <Link 
                       to={`/content/${content.id}`}
+                      state={{ from: location.pathname + location.search }}
                       className="text-sm font-semibold text-zinc-900 hover:text-indigo-600 cursor-pointer leading-snug"
                     >
                       {content.title || "Untitled"}
@@ -382,6 +476,8 @@ const Contents: React.FC = () => {
                     </span>
                     <span>{new Date(content.updatedAt || content.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
                   </div>
+
+                  {hitsById.has(content.id) && <SearchMatch hit={hitsById.get(content.id)!} query={highlightText(parsedQuery)} />}
                 </div>
 
                 {/* Actions */}
@@ -416,28 +512,15 @@ const Contents: React.FC = () => {
         )}
         
         {/* Pagination */}
-        {(contents.length > 0 || offset > 0) && (
-          <div className="px-4 sm:px-6 py-3 border-t border-zinc-100 bg-zinc-50/50 flex items-center justify-between">
-            <span className="text-xs text-zinc-500">
-              {offset + 1}-{Math.min(offset + LIMIT, metadata?.chunkTotalItems || 0)} of {metadata?.chunkTotalItems || 0}
-            </span>
-            <div className="flex items-center gap-2">
-              <button
-                onClick={handlePrev}
-                disabled={!canGoPrev || isLoading}
-                className="p-2 rounded-lg bg-white border border-zinc-200 text-zinc-500 hover:text-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm active:scale-95 transition-transform"
-              >
-                <ChevronLeft size={16} />
-              </button>
-              <button
-                onClick={handleNext}
-                disabled={!canGoNext || isLoading}
-                className="p-2 rounded-lg bg-white border border-zinc-200 text-zinc-500 hover:text-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm active:scale-95 transition-transform"
-              >
-                <ChevronRight size={16} />
-              </button>
-            </div>
-          </div>
+        {(loaded.length > 0 || pagination.canGoPrev) && (
+          <PaginationFooter
+            pagination={pagination}
+            disabled={isLoading}
+            pageSizeOptions={PAGE_SIZES}
+            noun={isSearching ? "matches" : undefined}
+            onLoadMore={filled?.hasMore ? filled.loadMore : undefined}
+            isLoadingMore={filled?.isLoadingMore}
+          />
         )}
       </div>
 
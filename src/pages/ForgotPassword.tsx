@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useLocation } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { applyServerErrors, emailFormSchema, type EmailFormValues } from "@/lib/forms";
+import FieldError from "@/components/FieldError";
+
+const inputClass =
+  "w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm";
+const errorRing = "border-red-300 focus:ring-red-500";
+
+const ForgotPassword: React.FC = () => {
+  const { forgotPassword } = useAuth();
+  const location = useLocation();
+  const form = useForm<EmailFormValues>({
+    resolver: zodResolver(emailFormSchema),
+    // Prefilled from the login form when the user had already typed their email.
+    defaultValues: { email: (location.state as { email?: string } | null)?.email ?? "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+  const email = useWatch({ control: form.control, name: "email" });
+  const [isSent, setIsSent] = useState(false);
+
+  const onSubmit = async ({ email }: EmailFormValues) => {
+    try {
+      await forgotPassword(email);
+      setIsSent(true);
+    } catch (err) {
+      console.error(err);
+      applyServerErrors(form, err, "Failed to send reset link");
+    }
+  };
+
+  if (isSent) {
+    return (
+      <div className="p-8 text-center space-y-4">
+        <div className="w-16 h-16 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto text-3xl">
+          ✓
+        </div>
+        <h2 className="text-2xl font-bold text-zinc-900">Check your email</h2>
+        <p className="text-sm text-zinc-500">
+          If an account exists for <span className="font-medium text-zinc-900">{email}</span>, we've sent a link to reset
+          your password. The link expires soon, so use it shortly.
+        </p>
+        <div className="flex flex-col gap-2 pt-2">
+          <button
+            onClick={() => setIsSent(false)}
+            className="text-sm text-zinc-500 hover:text-black transition-colors"
+          >
+            Didn't get it? Try again
+          </button>
+          <Link to="/login" className="text-sm text-black font-semibold hover:underline decoration-zinc-300 underline-offset-4">
+            Back to login
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold text-zinc-900">Forgot your password?</h2>
+        <p className="text-sm text-zinc-500 mt-2">Enter your email and we'll send you a link to reset it</p>
+      </div>
+
+      {errors.root?.server && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+          <div className="w-1.5 h-1.5 rounded-full bg-red-600" />
+          {errors.root.server.message}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-5">
+        <div className="space-y-2">
+          <label htmlFor="email" className="text-sm font-medium text-zinc-900 ml-1">Email</label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="email"
+            placeholder="name@example.com"
+            {...register("email")}
+            aria-invalid={!!errors.email}
+            className={`${inputClass} ${errors.email ? errorRing : ""}`}
+            autoFocus
+          />
+          <FieldError message={errors.email?.message} />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 px-4 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm active:scale-[0.98]"
+        >
+          {isSubmitting ? "Sending..." : "Send Reset Link"}
+        </button>
+      </form>
+
+      <div className="mt-8 text-center text-sm text-zinc-500">
+        Remembered it?{" "}
+        <Link to="/login" className="text-black font-semibold hover:underline decoration-zinc-300 underline-offset-4">
+          Back to login
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -2,16 +2,8 @@ import React, { useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { FileText, Tag, Plus, ArrowRight, Sparkles } from "lucide-react";
 import { Link } from "react-router-dom";
-import api from "@/lib/api";
-
-interface Content {
-  id: string;
-  title: string;
-  body: string;
-  contentType: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { getStats, listContents } from "@/lib/client";
+import type { Content } from "@/lib/domain";
 
 const Home: React.FC = () => {
   useAuth();
@@ -25,14 +17,14 @@ const Home: React.FC = () => {
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [contentRes, statsRes] = await Promise.all([
-          api.get("/content?limit=5"), 
-          api.get("/stats"),           
+        const [contentPage, stats] = await Promise.all([
+          listContents({ limit: 5, offset: 0 }),
+          getStats(),
         ]);
         
-        setContents(contentRes.data.data || []);
-        setContentCount(statsRes.data.totalContents || 0);
-        setTagCount(statsRes.data.totalTags || 0);
+        setContents(contentPage.data);
+        setContentCount(stats.totalContents);
+        setTagCount(stats.totalTags);
         
       } catch (error) {
         console.error("Failed to fetch dashboard data:", error);
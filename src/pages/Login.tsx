@@ -1,32 +1,52 @@
-import React, { useState } from "react";
+import React from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useAuth } from "@/context/AuthContext";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { safeReturnPath } from "@/lib/navigation";
+import { applyServerErrors, loginFormSchema, type LoginFormValues } from "@/lib/forms";
+import SecondFactorForm from "@/components/SecondFactorForm";
+import FieldError from "@/components/FieldError";
+import OAuthButtons from "@/components/OAuthButtons";
+
+const inputClass =
+  "w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm";
+const errorRing = "border-red-300 focus:ring-red-500";
 
 const Login: React.FC = () => {
-  const { login } = useAuth();
+  const { login, loginStep } = useAuth();
   const navigate = useNavigate();
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError("");
-    setIsLoading(true);
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  // Where to go after signing in: set by ProtectedRoute, or by a full redirect on session expiry.
+  const returnTo = safeReturnPath((location.state as { from?: string } | null)?.from ?? searchParams.get("redirect"));
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginFormSchema),
+    defaultValues: { email: "", password: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+  const email = useWatch({ control: form.control, name: "email" });
 
+  const onSubmit = async ({ email, password }: LoginFormValues) => {
     try {
-      await login(email, password);
-      navigate("/");
-    } catch (err: any) {
+      // null: the account has 2FA, and loginStep now asks for a code.
+      if (await login(email, password)) {
+        navigate(returnTo, { replace: true });
+      }
+    } catch (err) {
       console.error(err);
-      const errorMessage = err.response?.data?.error;
-      setError(typeof errorMessage === "string" ? errorMessage : "Failed to login");
-    } finally {
-      setIsLoading(false);
+      applyServerErrors(form, err, "Failed to login");
     }
   };
 
+  if (loginStep.step === "second-factor") {
+    return (
+      <div className="p-8">
+        <SecondFactorForm onSignedIn={() => navigate(returnTo, { replace: true })} />
+      </div>
+    );
+  }
+
   return (
     <div className="p-8">
       <div className="text-center mb-8">
@@ -34,50 +54,56 @@ const Login: React.FC = () => {
         <p className="text-sm text-zinc-500 mt-2">Enter your credentials to access your account</p>
       </div>
       
-      {error && (
+      {errors.root?.server && (
         <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
           <div className="w-1.5 h-1.5 rounded-full bg-red-600" />
-          {error}
+          {errors.root.server.message}
         </div>
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-5">
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-5">
         <div className="space-y-2">
-          <label className="text-sm font-medium text-zinc-900 ml-1">Email</label>
+          <label htmlFor="email" className="text-sm font-medium text-zinc-900 ml-1">Email</label>
           <input
+            id="email"
             type="email"
+            autoComplete="email"
             placeholder="name@example.com"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm"
-            required
+            {...register("email")}
+            aria-invalid={!!errors.email}
+            className={`${inputClass} ${errors.email ? errorRing : ""}`}
           />
+          <FieldError message={errors.email?.message} />
         </div>
 
         <div className="space-y-2">
           <div className="flex items-center justify-between ml-1">
-            <label className="text-sm font-medium text-zinc-900">Password</label>
-            <Link to="#" className="text-xs text-zinc-500 hover:text-black transition-colors">Forgot password?</Link>
+            <label htmlFor="password" className="text-sm font-medium text-zinc-900">Password</label>
+            <Link to="/forgot-password" state={{ email }} className="text-xs text-zinc-500 hover:text-black transition-colors">Forgot password?</Link>
           </div>
           <input
+            id="password"
             type="password"
+            autoComplete="current-password"
             placeholder="••••••••"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm"
-            required
+            {...register("password")}
+            aria-invalid={!!errors.password}
+            className={`${inputClass} ${errors.password ? errorRing : ""}`}
           />
+          <FieldError message={errors.password?.message} />
         </div>
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={isSubmitting}
           className="w-full py-3 px-4 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm active:scale-[0.98]"
         >
-          {isLoading ? "Signing in..." : "Sign In"}
+          {isSubmitting ? "Signing in..." : "Sign In"}
         </button>
       </form>
 
+      <OAuthButtons returnTo={returnTo} />
+
       <div className="mt-8 text-center text-sm text-zinc-500">
         Don't have an account?{" "}
         <Link to="/register" className="text-black font-semibold hover:underline decoration-zinc-300 underline-offset-4">
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { Link2, Loader2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { OAUTH_PROVIDERS } from "@/lib/domain";
+import { getErrorMessage } from "@/lib/errors";
+import { providerErrorMessage, takePendingOAuth } from "@/lib/oauth";
+import { safeReturnPath } from "@/lib/navigation";
+import { applyServerErrors, passwordFormSchema, type PasswordFormValues } from "@/lib/forms";
+import SecondFactorForm from "@/components/SecondFactorForm";
+import FieldError from "@/components/FieldError";
+import type { User } from "@/lib/schemas";
+
+// "next-step": the exchange worked but loginStep wants a password or a code.
+type Status = "exchanging" | "next-step" | "error";
+
+// Shown when the provider's email already has a password account: signing in
+// with that password once links the provider to it.
+const LinkAccountForm: React.FC<{ onSignedIn: (user: User | null) => void }> = ({ onSignedIn }) => {
+  const { loginStep, linkAccount, cancelLogin } = useAuth();
+  const form = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: { password: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+
+  if (loginStep.step !== "link-account") return null;
+  const providerName = OAUTH_PROVIDERS[loginStep.provider];
+
+  const onSubmit = async ({ password }: PasswordFormValues) => {
+    try {
+      onSignedIn(await linkAccount(password));
+    } catch (err) {
+      console.error(err);
+      form.setValue("password", "");
+      applyServerErrors(form, err, "Failed to link account");
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="text-center space-y-2">
+        <div className="w-12 h-12 bg-zinc-100 text-zinc-700 rounded-full flex items-center justify-center mx-auto">
+          <Link2 size={22} />
+        </div>
+        <h2 className="text-xl font-bold text-zinc-900">Link your {providerName} account</h2>
+        <p className="text-sm text-zinc-500">
+          <span className="font-medium text-zinc-900">{loginStep.email}</span> already has a Vekku account. Enter its
+          password once to sign in with {providerName} from now on.
+        </p>
+      </div>
+
+      {errors.root?.server && (
+        <div className="p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+          <div className="w-1.5 h-1.5 rounded-full bg-red-600" />
+          {errors.root.server.message}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4">
+        <div className="space-y-2">
+          <input
+            type="password"
+            autoComplete="current-password"
+            placeholder="••••••••"
+            {...register("password")}
+            aria-invalid={!!errors.password}
+            className={`w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm ${errors.password ? "border-red-300 focus:ring-red-500" : ""}`}
+            autoFocus
+          />
+          <FieldError message={errors.password?.message} />
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 px-4 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm active:scale-[0.98]"
+        >
+          {isSubmitting ? "Linking..." : "Link and sign in"}
+        </button>
+      </form>
+
+      <div className="flex items-center justify-between text-sm">
+        <button type="button" onClick={cancelLogin} className="text-zinc-500 hover:text-black transition-colors">
+          Back
+        </button>
+        <Link to="/forgot-password" state={{ email: loginStep.email }} className="text-zinc-500 hover:text-black transition-colors">
+          Forgot password?
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+// Where providers send the user back to, with either ?code&state or ?error.
+const OAuthCallback: React.FC = () => {
+  const { loginWithOAuth, loginStep } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const hasExchanged = useRef(false);
+  const [status, setStatus] = useState<Status>("exchanging");
+  const [message, setMessage] = useState("");
+  const [returnTo, setReturnTo] = useState("/");
+  // Opened by the session-expired dialog: the tab behind picks the session up.
+  const [isPopup, setIsPopup] = useState(false);
+
+  useEffect(() => {
+    if (hasExchanged.current) return;
+    hasExchanged.current = true;
+
+    const exchange = async () => {
+      const pending = takePendingOAuth(searchParams.get("state"));
+      const code = searchParams.get("code");
+      const providerError = searchParams.get("error");
+
+      if (!pending) {
+        setStatus("error");
+        setMessage("This sign-in link is invalid or has expired. Please try again.");
+        return;
+      }
+      setIsPopup(!!pending.popup);
+      if (providerError || !code) {
+        setStatus("error");
+        setMessage(providerErrorMessage(pending.provider, providerError ?? "", searchParams.get("error_description")));
+        return;
+      }
+
+      const target = safeReturnPath(pending.returnTo);
+      setReturnTo(target);
+      try {
+        // null: the account needs linking or a second factor first.
+        if (await loginWithOAuth(pending.provider, code)) {
+          if (pending.popup) window.close();
+          else navigate(target, { replace: true });
+        } else {
+          setStatus("next-step");
+        }
+      } catch (err) {
+        console.error(err);
+        setStatus("error");
+        setMessage(getErrorMessage(err, `Couldn't sign in with ${OAUTH_PROVIDERS[pending.provider]}.`));
+      }
+    };
+
+    exchange();
+  }, [searchParams, loginWithOAuth, navigate]);
+
+  const finish = (user: User | null) => {
+    if (!user) return;
+    if (isPopup) window.close();
+    else navigate(returnTo, { replace: true });
+  };
+
+  if (status === "next-step") {
+    // "Back" (or an expired step) returns to the sign-in screen.
+    if (loginStep.step === "credentials") return <Navigate to="/login" replace />;
+    return (
+      <div className="p-8">
+        {loginStep.step === "second-factor" ? <SecondFactorForm onSignedIn={finish} /> : <LinkAccountForm onSignedIn={finish} />}
+      </div>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <div className="p-8 text-center space-y-4">
+        <h2 className="text-xl font-bold text-zinc-900">Couldn't sign you in</h2>
+        <p className="text-sm text-zinc-500">{message}</p>
+        {isPopup ? (
+          <button
+            type="button"
+            onClick={() => window.close()}
+            className="inline-block py-2.5 px-6 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 transition-all shadow-sm"
+          >
+            Close
+          </button>
+        ) : (
+          <Link
+            to="/login"
+            className="inline-block py-2.5 px-6 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 transition-all shadow-sm"
+          >
+            Back to sign in
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 flex flex-col items-center gap-3 text-zinc-500">
+      <Loader2 className="animate-spin" size={24} />
+      <p className="text-sm">Signing you in...</p>
+    </div>
+  );
+};
+
+export default OAuthCallback;
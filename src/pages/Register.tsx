@@ -1,37 +1,65 @@
 import React, { useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useAuth } from "@/context/AuthContext";
 import { Link } from "react-router-dom";
+import { applyServerErrors, registerFormSchema, type RegisterFormValues } from "@/lib/forms";
+import ResendVerification from "@/components/ResendVerification";
+import PasswordStrengthMeter from "@/components/PasswordStrengthMeter";
+import FieldError from "@/components/FieldError";
+import OAuthButtons from "@/components/OAuthButtons";
+
+const inputClass =
+  "w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm";
+const errorRing = "border-red-300 focus:ring-red-500";
 
 const Register: React.FC = () => {
   const { register } = useAuth();
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [name, setName] = useState("");
-  const [error, setError] = useState("");
-  const [success, setSuccess] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError("");
-    setSuccess("");
-    setIsLoading(true);
+  // The address the verification email went to; switches to the "check your inbox" screen.
+  const [sentTo, setSentTo] = useState("");
+  const form = useForm<RegisterFormValues>({
+    resolver: zodResolver(registerFormSchema),
+    defaultValues: { name: "", email: "", password: "" },
+  });
+  const { handleSubmit, formState: { errors, isSubmitting } } = form;
+  const [name, email, password] = useWatch({ control: form.control, name: ["name", "email", "password"] });
 
+  const onSubmit = async (values: RegisterFormValues) => {
     try {
-      await register(email, password, name);
-      setSuccess("Verification email sent! Please check your inbox to activate your account.");
-      setEmail("");
-      setPassword("");
-      setName("");
-    } catch (err: any) {
+      await register(values.email, values.password, values.name);
+      setSentTo(values.email);
+      form.reset({ name: "", email: values.email, password: "" });
+    } catch (err) {
       console.error(err);
-      const errorMessage = err.response?.data?.error;
-      setError(typeof errorMessage === "string" ? errorMessage : "Failed to request registration");
-    } finally {
-      setIsLoading(false);
+      applyServerErrors(form, err, "Failed to request registration");
     }
   };
 
+  if (sentTo) {
+    return (
+      <div className="p-8 text-center space-y-4">
+        <div className="w-16 h-16 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto text-3xl">
+          ✓
+        </div>
+        <h2 className="text-2xl font-bold text-zinc-900">Check your email</h2>
+        <p className="text-sm text-zinc-500">
+          We've sent a verification link to <span className="font-medium text-zinc-900">{sentTo}</span>. Open it to
+          activate your account.
+        </p>
+        <div className="pt-2 space-y-3">
+          <p className="text-xs text-zinc-400">Didn't get it? Check your spam folder, or send it again.</p>
+          <ResendVerification email={sentTo} justSent />
+          <button
+            onClick={() => setSentTo("")}
+            className="text-sm text-zinc-500 hover:text-black transition-colors"
+          >
+            Used the wrong email? Start over
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="p-8">
       <div className="text-center mb-8">
@@ -39,67 +67,68 @@ const Register: React.FC = () => {
         <p className="text-sm text-zinc-500 mt-2">Join Vekku to start managing your knowledge</p>
       </div>
 
-      {error && (
+      {errors.root?.server && (
         <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
           <div className="w-1.5 h-1.5 rounded-full bg-red-600" />
-          {error}
+          {errors.root.server.message}
         </div>
       )}
 
-      {success && (
-        <div className="mb-6 p-4 bg-green-50 border border-green-100 text-green-700 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
-          <div className="w-1.5 h-1.5 rounded-full bg-green-600" />
-          {success}
-        </div>
-      )}
-
-      <form onSubmit={handleSubmit} className="space-y-5">
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-5">
         <div className="space-y-2">
-          <label className="text-sm font-medium text-zinc-900 ml-1">Full Name</label>
+          <label htmlFor="name" className="text-sm font-medium text-zinc-900 ml-1">Full Name</label>
           <input
+            id="name"
             type="text"
+            autoComplete="name"
             placeholder="John Doe"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm"
-            required
+            {...form.register("name")}
+            aria-invalid={!!errors.name}
+            className={`${inputClass} ${errors.name ? errorRing : ""}`}
           />
+          <FieldError message={errors.name?.message} />
         </div>
 
         <div className="space-y-2">
-          <label className="text-sm font-medium text-zinc-900 ml-1">Email</label>
+          <label htmlFor="email" className="text-sm font-medium text-zinc-900 ml-1">Email</label>
           <input
+            id="email"
             type="email"
+            autoComplete="email"
             placeholder="name@example.com"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm"
-            required
+            {...form.register("email")}
+            aria-invalid={!!errors.email}
+            className={`${inputClass} ${errors.email ? errorRing : ""}`}
           />
+          <FieldError message={errors.email?.message} />
         </div>
 
         <div className="space-y-2">
-          <label className="text-sm font-medium text-zinc-900 ml-1">Password</label>
+          <label htmlFor="password" className="text-sm font-medium text-zinc-900 ml-1">Password</label>
           <input
+            id="password"
             type="password"
+            autoComplete="new-password"
             placeholder="••••••••"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm"
-            required
-            minLength={6}
+            {...form.register("password")}
+            aria-invalid={!!errors.password}
+            className={`${inputClass} ${errors.password ? errorRing : ""}`}
           />
+          <FieldError message={errors.password?.message} />
+          <PasswordStrengthMeter password={password} personal={[name, email]} />
         </div>
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={isSubmitting}
           className="w-full py-3 px-4 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm active:scale-[0.98]"
         >
-          {isLoading ? "Creating account..." : "Create Account"}
+          {isSubmitting ? "Creating account..." : "Create Account"}
         </button>
       </form>
 
+      <OAuthButtons />
+
       <div className="mt-8 text-center text-sm text-zinc-500">
         Already have an account?{" "}
         <Link to="/login" className="text-black font-semibold hover:underline decoration-zinc-300 underline-offset-4">
@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { isApiError } from "@/lib/errors";
+import { applyServerErrors, newPasswordFormSchema, type NewPasswordFormValues } from "@/lib/forms";
+import FieldError from "@/components/FieldError";
+
+const inputClass =
+  "w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-all text-sm";
+const errorRing = "border-red-300 focus:ring-red-500";
+
+type Status = "form" | "success" | "expired" | "used" | "invalid";
+
+// Reset links fail in a few distinct ways, each with its own way out.
+const tokenStatus = (err: unknown): Status | null => {
+  if (!isApiError(err)) return null;
+  if (err.code === "TOKEN_EXPIRED") return "expired";
+  if (err.code === "TOKEN_USED") return "used";
+  if (err.code === "TOKEN_INVALID" || err.kind === "not-found") return "invalid";
+  return null;
+};
+
+const TOKEN_PROBLEMS: Record<Exclude<Status, "form" | "success">, { title: string; message: string }> = {
+  expired: {
+    title: "Link expired",
+    message: "This password reset link has expired. Request a new one to continue.",
+  },
+  used: {
+    title: "Link already used",
+    message: "This link has already been used to reset your password. If that wasn't you, request a new link.",
+  },
+  invalid: {
+    title: "Invalid link",
+    message: "This password reset link is invalid. Make sure you copied the whole link from the email.",
+  },
+};
+
+const ResetPassword: React.FC = () => {
+  const { resetPassword } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [status, setStatus] = useState<Status>(token ? "form" : "invalid");
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordFormSchema),
+    defaultValues: { newPassword: "", confirmPassword: "" },
+  });
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = form;
+
+  const onSubmit = async ({ newPassword }: NewPasswordFormValues) => {
+    try {
+      await resetPassword(token!, newPassword);
+      setStatus("success");
+    } catch (err) {
+      const problem = tokenStatus(err);
+      if (problem) {
+        setStatus(problem);
+      } else {
+        applyServerErrors(form, err, "Failed to reset password", { password: "newPassword" });
+      }
+    }
+  };
+
+  if (status === "success") {
+    return (
+      <div className="p-8 text-center space-y-4">
+        <div className="w-16 h-16 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto text-3xl">
+          ✓
+        </div>
+        <h2 className="text-2xl font-bold text-zinc-900">Password updated</h2>
+        <p className="text-sm text-zinc-500">You can now sign in with your new password.</p>
+        <Link
+          to="/login"
+          replace
+          className="inline-block py-2.5 px-6 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 transition-all"
+        >
+          Go to Login
+        </Link>
+      </div>
+    );
+  }
+
+  if (status !== "form") {
+    const { title, message } = TOKEN_PROBLEMS[status];
+    return (
+      <div className="p-8 text-center space-y-4">
+        <div className="w-16 h-16 bg-red-100 text-red-600 rounded-full flex items-center justify-center mx-auto text-3xl">
+          ✕
+        </div>
+        <h2 className="text-2xl font-bold text-zinc-900">{title}</h2>
+        <p className="text-sm text-zinc-500">{message}</p>
+        <div className="flex flex-col gap-2 pt-2">
+          <Link
+            to="/forgot-password"
+            className="inline-block py-2.5 px-6 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 transition-all"
+          >
+            Request a new link
+          </Link>
+          <Link to="/login" className="text-sm text-zinc-500 hover:text-black transition-colors">
+            Back to login
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold text-zinc-900">Choose a new password</h2>
+        <p className="text-sm text-zinc-500 mt-2">You'll be signed out of all other devices</p>
+      </div>
+
+      {errors.root?.server && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+          <div className="w-1.5 h-1.5 rounded-full bg-red-600" />
+          {errors.root.server.message}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-5">
+        <div className="space-y-2">
+          <label htmlFor="new-password" className="text-sm font-medium text-zinc-900 ml-1">New Password</label>
+          <input
+            id="new-password"
+            type="password"
+            placeholder="••••••••"
+            autoComplete="new-password"
+            {...register("newPassword")}
+            aria-invalid={!!errors.newPassword}
+            className={`${inputClass} ${errors.newPassword ? errorRing : ""}`}
+            autoFocus
+          />
+          <FieldError message={errors.newPassword?.message} />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="confirm-password" className="text-sm font-medium text-zinc-900 ml-1">Confirm Password</label>
+          <input
+            id="confirm-password"
+            type="password"
+            placeholder="••••••••"
+            autoComplete="new-password"
+            {...register("confirmPassword")}
+            aria-invalid={!!errors.confirmPassword}
+            className={`${inputClass} ${errors.confirmPassword ? errorRing : ""}`}
+          />
+          <FieldError message={errors.confirmPassword?.message} />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 px-4 bg-black text-white text-sm font-semibold rounded-xl hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 transition-all shadow-sm active:scale-[0.98]"
+        >
+          {isSubmitting ? "Saving..." : "Reset Password"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ResetPassword;
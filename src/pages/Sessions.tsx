@@ -0,0 +1,168 @@
+import React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { listSessions, revokeOtherSessions, revokeSession } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { Session } from "@/lib/schemas";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/useToast";
+import { useConfirm } from "@/hooks/useConfirm";
+
+// "Chrome on macOS" is enough to recognise a device; the raw string is in the tooltip.
+const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    [["Edg/", "Edge"], ["Firefox/", "Firefox"], ["Chrome/", "Chrome"], ["Safari/", "Safari"]].find(([token]) =>
+      userAgent.includes(token)
+    )?.[1] ?? "Browser";
+  const os =
+    [["iPhone", "iOS"], ["iPad", "iPadOS"], ["Android", "Android"], ["Mac OS X", "macOS"], ["Windows", "Windows"], ["Linux", "Linux"]].find(
+      ([token]) => userAgent.includes(token)
+    )?.[1] ?? "an unknown OS";
+  return `${browser} on ${os}`;
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /iPhone|iPad|Android|Mobile/.test(userAgent);
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+
+const timeAgo = (iso: string) => {
+  const seconds = (new Date(iso).getTime() - Date.now()) / 1000;
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [["day", 86400], ["hour", 3600], ["minute", 60]];
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return relativeTime.format(Math.round(seconds / size), unit);
+  }
+  return "just now";
+};
+
+const Sessions: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { logout } = useAuth();
+  const toast = useToast();
+  const confirm = useConfirm();
+
+  const { data: sessions = [], isLoading, error, refetch } = useQuery({
+    queryKey: ["sessions"],
+    queryFn: listSessions,
+    staleTime: 0,
+  });
+
+  const otherSessions = sessions.filter((s) => !s.current);
+
+  const handleRevoke = async (session: Session) => {
+    if (session.current) {
+      const confirmed = await confirm({
+        title: "Sign out of this device?",
+        confirmLabel: "Sign out",
+      });
+      if (confirmed) logout();
+      return;
+    }
+
+    const confirmed = await confirm({
+      title: "Revoke this session?",
+      description: `${describeUserAgent(session.userAgent)} will be signed out.`,
+      confirmLabel: "Revoke",
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await revokeSession(session.id);
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      toast.success("Session revoked");
+    } catch (err) {
+      console.error("Failed to revoke session", err);
+      toast.error("Failed to revoke session", getErrorMessage(err, "Please try again."));
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    const confirmed = await confirm({
+      title: "Sign out of all other sessions?",
+      description: `${otherSessions.length} other ${otherSessions.length === 1 ? "session" : "sessions"} will be signed out. This device stays signed in.`,
+      confirmLabel: "Sign out others",
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await revokeOtherSessions();
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      toast.success("Signed out of all other sessions");
+    } catch (err) {
+      console.error("Failed to revoke sessions", err);
+      toast.error("Failed to sign out other sessions", getErrorMessage(err, "Please try again."));
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight text-zinc-900">Active sessions</h1>
+          <p className="text-sm text-zinc-500 mt-1">Devices currently signed in to your account.</p>
+        </div>
+        <button
+          onClick={handleRevokeOthers}
+          disabled={otherSessions.length === 0}
+          className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-white border border-zinc-200 text-zinc-700 hover:bg-red-50 hover:text-red-600 hover:border-red-200 shadow-sm disabled:opacity-50 disabled:pointer-events-none"
+        >
+          <LogOut size={16} />
+          Sign out all other sessions
+        </button>
+      </div>
+
+      <div className="bg-white border border-zinc-200 rounded-xl shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center p-12 text-zinc-500">
+            <Loader2 className="animate-spin mb-2" size={24} />
+            <p className="text-sm">Loading sessions...</p>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center p-8 text-center">
+            <p className="font-medium text-zinc-900 px-4">{getErrorMessage(error, "Failed to load sessions.")}</p>
+            <button onClick={() => refetch()} className="mt-4 text-indigo-600 hover:text-indigo-700 text-sm font-medium">
+              Try again
+            </button>
+          </div>
+        ) : (
+          <div className="divide-y divide-zinc-100">
+            {sessions.map((session) => {
+              const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center gap-4 px-4 sm:px-6 py-4">
+                  <div className="w-10 h-10 rounded-full bg-zinc-100 flex items-center justify-center text-zinc-500 shrink-0">
+                    <Icon size={18} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-zinc-900 flex items-center gap-2" title={session.userAgent ?? undefined}>
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && (
+                        <span className="text-[10px] uppercase tracking-wider font-semibold text-green-700 bg-green-50 border border-green-100 rounded px-1.5 py-0.5">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      Last active {timeAgo(session.lastUsedAt)} • Signed in{" "}
+                      {new Date(session.createdAt).toLocaleDateString(undefined, { dateStyle: "medium" })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    className="px-3 py-1.5 text-xs font-medium rounded-md border border-zinc-200 text-zinc-600 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
+                  >
+                    {session.current ? "Sign out" : "Revoke"}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sessions;
@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { Tag, Search, X, Trash2, Loader2, Sparkles, MoreHorizontal, ChevronLeft, ChevronRight, CheckSquare, Square, Plus } from "lucide-react";
-import api, { bulkDeleteTags } from "@/lib/api";
+import { useQueryClient } from "@tanstack/react-query";
+import { Tag, Search, X, Trash2, Loader2, Sparkles, MoreHorizontal, CheckSquare, Square, Plus } from "lucide-react";
+import { bulkDeleteTags, deleteTag, listTags } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import { useListParams } from "@/hooks/useListParams";
+import { FIRST_PAGE, useChunkedPagination } from "@/hooks/useChunkedPagination";
+import { useToast } from "@/hooks/useToast";
+import { useConfirm } from "@/hooks/useConfirm";
 import CreateTagModal from "@/components/CreateTagModal";
 import EditTagModal from "@/components/EditTagModal";
+import PaginationFooter from "@/components/PaginationFooter";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,68 +17,46 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-interface TagData {
-  id: string;
-  name: string;
-  semantic: string;
-  createdAt: string;
-  _count?: {
-    contents: number;
-  };
-}
-
-interface PaginationMetadata {
-  nextChunkId: string | null;
-  chunkSize: number;
-  chunkTotalItems: number;
-  limit: number;
-  offset: number;
-}
-
 const LIMIT = 20;
+const PAGE_SIZES = [10, 20, 50];
 
 const Tags: React.FC = () => {
   const queryClient = useQueryClient();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const toast = useToast();
+  const confirm = useConfirm();
+
+  // Paging and search live in the URL, so a refresh or Back keeps the user's place.
+  const [listParams, setListParams] = useListParams();
+  const debouncedQuery = listParams.q;
 
-  // Pagination State
-  const [offset, setOffset] = useState(0);
-  const [chunkId, setChunkId] = useState<string | undefined>(undefined);
-  const [chunkStack, setChunkStack] = useState<string[]>([]); // To go back to previous chunks
+  const [searchQuery, setSearchQuery] = useState(debouncedQuery);
+  const [syncedQuery, setSyncedQuery] = useState(debouncedQuery);
+  if (syncedQuery !== debouncedQuery) {
+    setSyncedQuery(debouncedQuery);
+    setSearchQuery(debouncedQuery);
+  }
 
   // Selection State
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Debounce search
   useEffect(() => {
+    if (searchQuery === debouncedQuery) return;
     const timer = setTimeout(() => {
-      setDebouncedQuery(searchQuery);
-      setOffset(0); 
-      setChunkId(undefined);
-      setChunkStack([]);
+      setListParams({ q: searchQuery, ...FIRST_PAGE }, { replace: true });
       setSelectedIds(new Set());
     }, 500);
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, debouncedQuery, setListParams]);
 
-  const { data: response, isLoading, error, refetch } = useQuery({
-    queryKey: ["tags", { offset, chunkId, debouncedQuery }],
-    queryFn: async () => {
-      const params = new URLSearchParams({
-        limit: LIMIT.toString(),
-        offset: offset.toString(),
-      });
-      if (chunkId) params.append("chunkId", chunkId);
-      if (debouncedQuery) params.append("q", debouncedQuery);
-
-      const res = await api.get(`/tag?${params.toString()}`);
-      return res.data;
-    },
+  const { query, items: tags, pagination } = useChunkedPagination({
+    queryKey: ["tags", { debouncedQuery }],
+    fetchPage: (page, options) => listTags({ ...page, q: debouncedQuery }, options),
+    pageSize: LIMIT,
+    store: [listParams, setListParams],
+    onPageChange: () => setSelectedIds(new Set()),
   });
-
-  const tags = (response?.data || []) as TagData[];
-  const metadata = response?.metadata as PaginationMetadata | null;
+  const { isLoading, error, refetch } = query;
 
   const handleRefresh = () => {
     queryClient.invalidateQueries({ queryKey: ["tags"] });
@@ -80,13 +64,21 @@ const Tags: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this tag?")) return;
+    const confirmed = await confirm({
+      title: "Delete this tag?",
+      description: "It will be removed from every content it is attached to.",
+      confirmLabel: "Delete",
+      destructive: true,
+    });
+    if (!confirmed) return;
+
     try {
-      await api.delete(`/tag/${id}`);
+      await deleteTag(id);
       handleRefresh();
+      toast.success("Tag deleted");
     } catch (error) {
       console.error("Failed to delete tag", error);
-      alert("Failed to delete tag");
+      toast.error("Failed to delete tag", getErrorMessage(error, "Please try again."));
     }
   };
 
@@ -115,7 +107,14 @@ const Tags: React.FC = () => {
 
   const handleBulkDelete = async (deleteAll: boolean = false) => {
     const count = deleteAll ? "ALL TAGS" : `${selectedIds.size} selected tags`;
-    if (!confirm(`Are you sure you want to delete ${count}? This cannot be undone.`)) return;
+    const confirmed = await confirm({
+      title: `Delete ${count}?`,
+      description: "This cannot be undone.",
+      confirmLabel: "Delete",
+      destructive: true,
+      confirmPhrase: deleteAll ? "delete all tags" : undefined,
+    });
+    if (!confirmed) return;
 
     try {
       if (deleteAll) {
@@ -124,57 +123,13 @@ const Tags: React.FC = () => {
         await bulkDeleteTags(Array.from(selectedIds));
       }
       handleRefresh();
+      toast.success(deleteAll ? "All tags deleted" : `Deleted ${count}`);
     } catch (error) {
       console.error("Failed to bulk delete:", error);
-      alert("Failed to delete tags.");
+      toast.error("Failed to delete tags", getErrorMessage(error, "Please try again."));
     }
   };
 
-  const handleNext = () => {
-    if (!metadata) return;
-
-    if (debouncedQuery) {
-      if (offset + LIMIT < metadata.chunkTotalItems) {
-        setOffset(offset + LIMIT);
-      }
-    } else {
-      if (offset + LIMIT < metadata.chunkTotalItems) {
-        setOffset(offset + LIMIT);
-      } else if (metadata.nextChunkId) {
-        setChunkStack([...chunkStack, chunkId || ""]);
-        setChunkId(metadata.nextChunkId);
-        setOffset(0);
-      }
-    }
-    setSelectedIds(new Set());
-  };
-
-  const handlePrev = () => {
-    if (debouncedQuery) {
-      if (offset - LIMIT >= 0) {
-        setOffset(offset - LIMIT);
-      }
-    } else {
-      if (offset - LIMIT >= 0) {
-        setOffset(offset - LIMIT);
-      } else if (chunkStack.length > 0) {
-        const prevStack = [...chunkStack];
-        const prevChunk = prevStack.pop();
-        setChunkStack(prevStack);
-        setChunkId(prevChunk === "" ? undefined : prevChunk);
-        setOffset(0);
-      }
-    }
-    setSelectedIds(new Set());
-  };
-
-  const canGoNext = metadata ? (
-    debouncedQuery 
-      ? offset + LIMIT < metadata.chunkTotalItems 
-      : (offset + LIMIT < metadata.chunkTotalItems || !!metadata.nextChunkId)
-  ) : false;
-
-  const canGoPrev = debouncedQuery ? offset > 0 : (offset > 0 || chunkStack.length > 0);
   const allInViewSelected = tags.length > 0 && tags.every((t) => selectedIds.has(t.id));
 
   return (
@@ -269,9 +224,7 @@ const Tags: React.FC = () => {
                <span className="text-red-600 font-bold">!</span>
              </div>
              <p className="font-medium text-zinc-900 px-4">
-               {(error as any).response?.status === 429 
-                 ? "Rate limit exceeded. Please wait a moment." 
-                 : "Failed to load tags. Please try again later."}
+               {getErrorMessage(error, "Failed to load tags. Please try again later.")}
              </p>
              <button 
                onClick={() => refetch()}
@@ -290,7 +243,7 @@ const Tags: React.FC = () => {
           </div>
         ) : (
           <div className="divide-y divide-zinc-100">
-            {tags.map((tag: TagData) => (
+            {tags.map((tag) => (
               <div 
                 key={tag.id} 
                 className={`group flex items-start gap-3 sm:gap-4 px-4 sm:px-6 py-4 transition-colors ${
@@ -354,27 +307,12 @@ const Tags: React.FC = () => {
 
         {/* Pagination Footer */}
         {tags.length > 0 && (
-          <div className="border-t border-zinc-100 px-4 sm:px-6 py-3 flex items-center justify-between bg-zinc-50/50">
-             <span className="text-xs text-zinc-500">
-                {offset + 1}-{Math.min(offset + LIMIT, metadata?.chunkTotalItems || 0)} of {metadata?.chunkTotalItems || 0}
-             </span>
-             <div className="flex items-center gap-2">
-               <button
-                 onClick={handlePrev}
-                 disabled={!canGoPrev || isLoading}
-                 className="p-2 rounded-lg bg-white shadow-sm border border-zinc-200 disabled:opacity-30 disabled:pointer-events-none transition-all text-zinc-600 active:scale-95"
-               >
-                 <ChevronLeft size={16} />
-               </button>
-               <button
-                 onClick={handleNext}
-                 disabled={!canGoNext || isLoading}
-                 className="p-2 rounded-lg bg-white shadow-sm border border-zinc-200 disabled:opacity-30 disabled:pointer-events-none transition-all text-zinc-600 active:scale-95"
-               >
-                 <ChevronRight size={16} />
-               </button>
-             </div>
-           </div>
+          <PaginationFooter
+            pagination={pagination}
+            disabled={isLoading}
+            pageSizeOptions={PAGE_SIZES}
+            noun={debouncedQuery ? "matches" : undefined}
+          />
         )}
       </div>
     </div>
@@ -1,13 +1,25 @@
 import React, { useEffect, useState, useRef } from "react";
 import { useSearchParams, Link } from "react-router-dom";
-import api from "@/lib/api";
+import { verifySignup } from "@/lib/client";
+import { getErrorMessage, isApiError } from "@/lib/errors";
+import ResendVerification from "@/components/ResendVerification";
+
+type Status = "verifying" | "success" | "already-verified" | "expired" | "error";
+
+// Expired links and already-verified accounts each have a clear next step, so
+// they get their own screens rather than a generic failure.
+const failureStatus = (err: unknown): Status => {
+  if (isApiError(err) && err.code === "ALREADY_VERIFIED") return "already-verified";
+  if (isApiError(err) && err.code === "TOKEN_EXPIRED") return "expired";
+  return "error";
+};
 
 const Verify: React.FC = () => {
   const [searchParams] = useSearchParams();
   const token = searchParams.get("token");
   const hasVerified = useRef(false);
   
-  const [status, setStatus] = useState<"verifying" | "success" | "error">("verifying");
+  const [status, setStatus] = useState<Status>("verifying");
   const [message, setMessage] = useState("");
 
   useEffect(() => {
@@ -23,14 +35,13 @@ const Verify: React.FC = () => {
 
     const verify = async () => {
       try {
-        await api.get(`/auth/signup/verify?token=${token}`);
+        await verifySignup(token);
         setStatus("success");
-      } catch (err: any) {
+      } catch (err) {
         console.error(err);
         // Only set error if we aren't already successful (in case of race conditions, though ref handles most)
-        setStatus("error");
-        const errorMessage = err.response?.data?.error;
-        setMessage(typeof errorMessage === "string" ? errorMessage : "Verification failed. The token may be invalid or expired.");
+        setStatus(failureStatus(err));
+        setMessage(getErrorMessage(err, "Verification failed. The token may be invalid or expired."));
       }
     };
 
@@ -63,6 +74,35 @@ const Verify: React.FC = () => {
           </div>
         )}
 
+        {status === "already-verified" && (
+          <div className="space-y-4">
+            <div className="w-16 h-16 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto text-3xl">
+              ✓
+            </div>
+            <h2 className="text-2xl font-bold text-gray-800">Already Verified</h2>
+            <p className="text-gray-600">This account has already been verified. Sign in to continue.</p>
+            <Link
+              to="/login"
+              className="inline-block px-6 py-2 bg-indigo-600 text-white font-medium rounded-md hover:bg-indigo-700 transition-colors"
+            >
+              Go to Login
+            </Link>
+          </div>
+        )}
+
+        {status === "expired" && (
+          <div className="space-y-4">
+            <div className="w-16 h-16 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center mx-auto text-3xl">
+              !
+            </div>
+            <h2 className="text-2xl font-bold text-gray-800">Link Expired</h2>
+            <p className="text-gray-600">
+              This verification link has expired. Enter the email you signed up with and we'll send a new one.
+            </p>
+            <ResendVerification />
+          </div>
+        )}
+
         {status === "error" && (
           <div className="space-y-4">
             <div className="w-16 h-16 bg-red-100 text-red-600 rounded-full flex items-center justify-center mx-auto text-3xl">
@@ -70,6 +110,8 @@ const Verify: React.FC = () => {
             </div>
             <h2 className="text-2xl font-bold text-gray-800">Verification Failed</h2>
             <p className="text-gray-600">{message}</p>
+            <p className="text-sm text-gray-500">Enter your email to get a new verification link.</p>
+            <ResendVerification />
             <Link
               to="/register"
               className="inline-block px-6 py-2 text-indigo-600 font-medium hover:text-indigo-800"